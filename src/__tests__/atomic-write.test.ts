@@ -0,0 +1,161 @@
+/*
+ * CLI tool for managing Claude Code hooks
+ * Copyright (C) 2025  Peoples Grocers LLC
+ *
+ * This library is free software; you can redistribute it and/or
+ * modify it under the terms of the GNU Lesser General Public
+ * License as published by the Free Software Foundation; either
+ * version 2.1 of the License, or (at your option) any later version.
+ *
+ * This library is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the GNU
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public
+ * License along with this library; if not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { test } from 'uvu';
+import * as assert from 'uvu/assert';
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import { spawnSync } from 'child_process';
+import { writeSettingsFile, withSettingsLock, BACKUP_DIRECTORY, SettingsChangedError, SettingsLockedError } from '../atomic-write';
+
+/**
+ * ATOMIC WRITE TESTS
+ *
+ * These tests verify that settings files are replaced in one step:
+ * - The new content lands in the file and no temp files are left behind
+ * - The previous content is kept as a timestamped backup
+ * - Creating a brand new file doesn't produce a backup
+ * - Old backups are pruned so the directory doesn't grow forever
+ * - A file that changed since it was read is left alone
+ * - The lock keeps a second writer out, and a dead holder's lock is taken over
+ * - Two processes taking over the same dead lock don't both end up holding it
+ */
+
+async function withTempClaudeDir(fn: (claudeDir: string) => Promise<void>): Promise<void> {
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'hooks-atomic-test-'));
+  try {
+    await fn(tempDir);
+  } finally {
+    await fs.rm(tempDir, { recursive: true });
+  }
+}
+
+test('atomic write - creates a new file without a backup', async () => {
+  await withTempClaudeDir(async (claudeDir) => {
+    const settingsPath = path.join(claudeDir, 'settings.local.json');
+
+    const result = await writeSettingsFile(settingsPath, '{ "hooks": {} }');
+
+    assert.is(await fs.readFile(settingsPath, 'utf-8'), '{ "hooks": {} }');
+    assert.is(result.backupPath, undefined);
+    assert.equal(await fs.readdir(claudeDir), ['settings.local.json']);
+  });
+});
+
+test('atomic write - keeps the previous content as a backup', async () => {
+  await withTempClaudeDir(async (claudeDir) => {
+    const settingsPath = path.join(claudeDir, 'settings.local.json');
+    await fs.writeFile(settingsPath, '// mine\n{}');
+
+    const result = await writeSettingsFile(settingsPath, '// mine\n{ "hooks": {} }');
+
+    assert.is(await fs.readFile(settingsPath, 'utf-8'), '// mine\n{ "hooks": {} }');
+    assert.ok(result.backupPath);
+    assert.is(path.dirname(result.backupPath!), path.join(claudeDir, BACKUP_DIRECTORY));
+    assert.is(await fs.readFile(result.backupPath!, 'utf-8'), '// mine\n{}');
+    assert.is(await fs.readFile(path.join(claudeDir, BACKUP_DIRECTORY, '.gitignore'), 'utf-8'), '*\n');
+    assert.equal((await fs.readdir(claudeDir)).sort(), [BACKUP_DIRECTORY, 'settings.local.json']);
+  });
+});
+
+test('atomic write - prunes old backups', async () => {
+  await withTempClaudeDir(async (claudeDir) => {
+    const settingsPath = path.join(claudeDir, 'settings.local.json');
+    const backupDir = path.join(claudeDir, BACKUP_DIRECTORY);
+    await fs.mkdir(backupDir);
+    for (let i = 0; i < 12; i++) {
+      await fs.writeFile(path.join(backupDir, `settings.local.json.2000-01-${String(i + 10)}T00-00-00-000Z.bak`), '{}');
+    }
+    await fs.writeFile(settingsPath, '{}');
+
+    await writeSettingsFile(settingsPath, '{ "hooks": {} }');
+
+    const backups = (await fs.readdir(backupDir)).filter(entry => entry.endsWith('.bak'));
+    assert.is(backups.length, 10);
+    assert.not.ok(backups.includes('settings.local.json.2000-01-10T00-00-00-000Z.bak'));
+  });
+});
+
+test('atomic write - a file that changed since it was read is left alone', async () => {
+  await withTempClaudeDir(async (claudeDir) => {
+    const settingsPath = path.join(claudeDir, 'settings.local.json');
+    await fs.writeFile(settingsPath, '{ "model": "opus" }');
+
+    try {
+      await writeSettingsFile(settingsPath, '{}', { expected: '{ "model": "sonnet" }' });
+      assert.unreachable('should have noticed the change');
+    } catch (error) {
+      assert.instance(error, SettingsChangedError);
+    }
+    assert.is(await fs.readFile(settingsPath, 'utf-8'), '{ "model": "opus" }');
+
+    await writeSettingsFile(settingsPath, '{}', { expected: '{ "model": "opus" }' });
+    assert.is(await fs.readFile(settingsPath, 'utf-8'), '{}');
+  });
+});
+
+test('atomic write - the lock keeps a second writer out', async () => {
+  await withTempClaudeDir(async (claudeDir) => {
+    const settingsPath = path.join(claudeDir, 'settings.local.json');
+
+    await withSettingsLock(settingsPath, async () => {
+      assert.equal(await fs.readdir(claudeDir), ['.settings.local.json.lock']);
+      try {
+        await withSettingsLock(settingsPath, async () => undefined);
+        assert.unreachable('should have been locked out');
+      } catch (error) {
+        assert.instance(error, SettingsLockedError);
+        assert.is((error as SettingsLockedError).pid, process.pid);
+      }
+    });
+
+    assert.equal(await fs.readdir(claudeDir), [], 'the lock is released');
+  });
+});
+
+test('atomic write - a lock left by a dead process is taken over', async () => {
+  await withTempClaudeDir(async (claudeDir) => {
+    const settingsPath = path.join(claudeDir, 'settings.local.json');
+    const finished = spawnSync(process.execPath, ['-e', '']);
+    await fs.writeFile(path.join(claudeDir, '.settings.local.json.lock'), `${finished.pid}\n`);
+
+    const result = await withSettingsLock(settingsPath, async () => 'ran');
+
+    assert.is(result, 'ran');
+    assert.equal(await fs.readdir(claudeDir), []);
+  });
+});
+
+test('atomic write - only one of two takes over a dead lock', async () => {
+  await withTempClaudeDir(async (claudeDir) => {
+    const settingsPath = path.join(claudeDir, 'settings.local.json');
+    const finished = spawnSync(process.execPath, ['-e', '']);
+    await fs.writeFile(path.join(claudeDir, '.settings.local.json.lock'), `${finished.pid}\n`);
+
+    const holding = () => withSettingsLock(settingsPath, () => new Promise(resolve => setTimeout(resolve, 50)));
+    const results = await Promise.allSettled([holding(), holding()]);
+
+    assert.equal(results.map(result => result.status).sort(), ['fulfilled', 'rejected']);
+    const rejected = results.find(result => result.status === 'rejected') as PromiseRejectedResult;
+    assert.instance(rejected.reason, SettingsLockedError);
+    assert.equal(await fs.readdir(claudeDir), []);
+  });
+});
+
+test.run();
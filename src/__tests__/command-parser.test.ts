@@ -0,0 +1,96 @@
+/*
+ * CLI tool for managing Claude Code hooks
+ * Copyright (C) 2025  Peoples Grocers LLC
+ *
+ * This library is free software; you can redistribute it and/or
+ * modify it under the terms of the GNU Lesser General Public
+ * License as published by the Free Software Foundation; either
+ * version 2.1 of the License, or (at your option) any later version.
+ *
+ * This library is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the GNU
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public
+ * License along with this library; if not, see <https://www.gnu.org/licenses/>.
+ */
+import { test } from 'uvu';
+import * as assert from 'uvu/assert';
+import { commandRunsProgram, parseCommand, tokenizeCommand } from '../command-parser';
+
+/**
+ * COMMAND PARSER TESTS
+ *
+ * These tests verify that hook commands are read the way the shell reads them:
+ * - Quotes, backslashes, operators, redirections and comments are handled
+ * - The program is found behind VAR=value, env, sudo and package runners
+ * - A shell's -c command line is read like any other, flags combined or not
+ * - Binary names match the program exactly, never a substring or an argument
+ */
+
+test('command parser - tokenizes like the shell', () => {
+  assert.equal(tokenizeCommand(`cd "$DIR" && my-tool 'a b' c\\ d 2>&1 | tee log # done`), [
+    ['cd', '$DIR'],
+    ['my-tool', 'a b', 'c d'],
+    ['tee', 'log']
+  ]);
+  assert.equal(tokenizeCommand('cat < in.txt > "out file"; echo "say \\"hi\\""'), [
+    ['cat'],
+    ['echo', 'say "hi"']
+  ]);
+});
+
+test('command parser - finds the program behind prefixes and wrappers', () => {
+  const executables = [
+    'FOO=1 my-tool Stop',
+    'env -u HOME BAR=2 my-tool',
+    'sudo -u root nohup my-tool',
+    '/usr/local/bin/my-tool run'
+  ].map(command => parseCommand(command)[0].executable);
+
+  assert.equal(executables, ['my-tool', 'my-tool', 'my-tool', '/usr/local/bin/my-tool']);
+});
+
+test('command parser - package runners fetch the package', () => {
+  assert.equal(parseCommand('npx -y @acme/my-tool@1.2 Stop'), [
+    { executable: '@acme/my-tool@1.2', runner: 'npx', args: ['Stop'] }
+  ]);
+  assert.equal(parseCommand('pnpm dlx my-tool'), [{ executable: 'my-tool', runner: 'pnpm dlx', args: [] }]);
+  assert.equal(parseCommand(`npx -c 'my-tool Stop'`), [{ executable: 'my-tool', args: ['Stop'] }]);
+});
+
+test('command parser - shells run their -c command line', () => {
+  assert.equal(parseCommand(`sh -c 'my-tool Stop'`), [{ executable: 'my-tool', args: ['Stop'] }]);
+  assert.equal(parseCommand(`/bin/bash -lc "cd /repo && my-tool"`), [
+    { executable: 'cd', args: ['/repo'] },
+    { executable: 'my-tool', args: [] }
+  ]);
+  assert.equal(parseCommand(`zsh -o errexit -c 'my-tool' zsh`), [{ executable: 'my-tool', args: [] }]);
+  assert.equal(parseCommand('bash run-hooks.sh'), [{ executable: 'bash', args: ['run-hooks.sh'] }]);
+});
+
+test('command parser - binary names match exactly', () => {
+  const matching = [
+    'my-tool Stop',
+    '/opt/bin/my-tool pre',
+    'npx my-tool@latest Stop',
+    'npx -y @acme/my-tool@1.2',
+    'npm exec -- my-tool',
+    'cd "$CLAUDE_PROJECT_DIR" && my-tool',
+    `bash -lc 'my-tool Stop'`
+  ];
+  const notMatching = [
+    'my-tool-helper Stop',
+    'echo my-tool',
+    'cat log > my-tool',
+    'node run.js # my-tool',
+    'hooks-manager my-tool',
+    `sh -c 'echo my-tool'`
+  ];
+
+  assert.equal(matching.filter(command => !commandRunsProgram(command, 'my-tool')), []);
+  assert.equal(notMatching.filter(command => commandRunsProgram(command, 'my-tool')), []);
+});
+
+test.run();
@@ -0,0 +1,84 @@
+/*
+ * CLI tool for managing Claude Code hooks
+ * Copyright (C) 2025  Peoples Grocers LLC
+ *
+ * This library is free software; you can redistribute it and/or
+ * modify it under the terms of the GNU Lesser General Public
+ * License as published by the Free Software Foundation; either
+ * version 2.1 of the License, or (at your option) any later version.
+ *
+ * This library is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the GNU
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public
+ * License along with this library; if not, see <https://www.gnu.org/licenses/>.
+ */
+import { test } from 'uvu';
+import * as assert from 'uvu/assert';
+import { BUILTIN_DIFF_TOOL, DIFF_TOOL_ENV, diffCommand, formatBuiltinDiff, resolveDiffTool } from '../diff-tools';
+
+/**
+ * DIFF TOOL TESTS
+ *
+ * These tests verify how the diff shown before a change is picked and drawn:
+ * - Command templates get the paths of both sides, quoted for the shell,
+ *   and {name} is filled in even when the paths are appended
+ * - --diff-tool wins over CCHOOKS_DIFF, which wins over detection
+ * - The built-in renderer colours lines, and dims JSONC comments
+ */
+
+const GREEN = '\x1b[32m';
+const GRAY = '\x1b[90m';
+
+test('diff tools - command templates', () => {
+  assert.is(
+    diffCommand('delta --side-by-side {before} {after}', '/tmp/a/settings.json', '/tmp/b/settings.json', 'settings.json'),
+    `delta --side-by-side '/tmp/a/settings.json' '/tmp/b/settings.json'`
+  );
+  assert.is(
+    diffCommand('diff -u', "/tmp/it's/settings.json", '/tmp/b/settings.json', 'settings.json'),
+    `diff -u '/tmp/it'\\''s/settings.json' '/tmp/b/settings.json'`
+  );
+  assert.is(
+    diffCommand('my-diff --title {name} {after} {before}', '/a', '/b', 'settings.json'),
+    `my-diff --title 'settings.json' '/b' '/a'`
+  );
+  assert.is(
+    diffCommand('diff -u --label {name}', '/a', '/b', 'settings.json'),
+    `diff -u --label 'settings.json' '/a' '/b'`
+  );
+});
+
+test('diff tools - flag, then environment, then detection', () => {
+  const saved = process.env[DIFF_TOOL_ENV];
+  try {
+    process.env[DIFF_TOOL_ENV] = 'colordiff -u';
+    assert.is(resolveDiffTool('builtin'), BUILTIN_DIFF_TOOL);
+    assert.is(resolveDiffTool(), 'colordiff -u');
+
+    delete process.env[DIFF_TOOL_ENV];
+    assert.type(resolveDiffTool(), 'string');
+    assert.is.not(resolveDiffTool(), '');
+  } finally {
+    if (saved === undefined) {
+      delete process.env[DIFF_TOOL_ENV];
+    } else {
+      process.env[DIFF_TOOL_ENV] = saved;
+    }
+  }
+});
+
+test('diff tools - built-in renderer dims comments', () => {
+  const before = '{\n  "a": 1\n}\n';
+  const after = '{\n  "a": 1, // the answer\n  "url": "https://example.com"\n}\n';
+  const lines = formatBuiltinDiff(before, after, 'settings.json').split('\n');
+
+  assert.ok(lines.includes(`${GREEN}+\x1b[0m${GREEN}  "a": 1, \x1b[0m${GRAY}// the answer\x1b[0m`));
+  // "//" inside a string is not a comment
+  assert.ok(lines.includes(`${GREEN}+\x1b[0m${GREEN}  "url": "https://example.com"\x1b[0m`));
+  assert.is(formatBuiltinDiff(before, before, 'settings.json'), '');
+});
+
+test.run();
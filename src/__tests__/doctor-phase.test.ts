@@ -0,0 +1,100 @@
+/*
+ * CLI tool for managing Claude Code hooks
+ * Copyright (C) 2025  Peoples Grocers LLC
+ *
+ * This library is free software; you can redistribute it and/or
+ * modify it under the terms of the GNU Lesser General Public
+ * License as published by the Free Software Foundation; either
+ * version 2.1 of the License, or (at your option) any later version.
+ *
+ * This library is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the GNU
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public
+ * License along with this library; if not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { test } from 'uvu';
+import * as assert from 'uvu/assert';
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import { diagnoseHooks } from '../doctor-phase';
+
+/**
+ * DOCTOR TESTS
+ *
+ * These tests verify that doctor points at the problems that stop hooks
+ * from running, and stays quiet about healthy setups.
+ */
+
+async function withProject(settings: string, fn: (project: string) => Promise<void>): Promise<void> {
+  const home = await fs.mkdtemp(path.join(os.tmpdir(), 'hooks-doctor-test-'));
+  const project = path.join(home, 'project');
+  const originalHome = process.env.HOME;
+  process.env.HOME = home;
+  try {
+    await fs.mkdir(path.join(project, '.claude'), { recursive: true });
+    await fs.writeFile(path.join(project, '.claude', 'settings.local.json'), settings);
+    await fn(project);
+  } finally {
+    process.env.HOME = originalHome;
+    await fs.rm(home, { recursive: true });
+  }
+}
+
+test('doctor - healthy settings have no findings', async () => {
+  await withProject(`{
+    "hooks": {
+      "PreToolUse": [{ "matcher": "Edit|Write", "hooks": [{ "type": "command", "command": "echo ok" }] }],
+      "Stop": [{ "hooks": [{ "type": "command", "command": "FOO=1 node --version" }] }]
+    }
+  }`, async (project) => {
+    const report = await diagnoseHooks(project);
+    assert.equal(report.findings, []);
+  });
+});
+
+test('doctor - reports typos, bad matchers and missing programs with their lines', async () => {
+  await withProject(`{
+  "hooks": {
+    "PreTooluse": [
+      {
+        "matcher": "Bash(",
+        "hooks": [
+          { "type": "command", "command": "definitely-not-installed-cchooks-test --flag" },
+          { "type": "command", "command": "\\"$CLAUDE_PROJECT_DIR\\"/hooks/missing.sh" }
+        ]
+      }
+    ]
+  }
+}`, async (project) => {
+    const report = await diagnoseHooks(project);
+
+    assert.equal(report.findings.map(finding => [finding.check, finding.severity, finding.line]), [
+      ['event', 'warning', 3],
+      ['matcher', 'error', 5],
+      ['executable', 'error', 7],
+      ['executable', 'error', 8]
+    ]);
+    assert.match(report.findings[0].suggestion, /PreToolUse/);
+  });
+});
+
+test('doctor - reports parse errors with their position', async () => {
+  await withProject(`{
+  "hooks": {}
+  "other": true
+}`, async (project) => {
+    const report = await diagnoseHooks(project);
+
+    assert.is(report.findings.length, 1);
+    assert.is(report.findings[0].check, 'parse');
+    assert.is(report.findings[0].line, 3);
+    assert.match(report.findings[0].message, /CommaExpected at line 3, column 3/);
+  });
+});
+
+test.run();
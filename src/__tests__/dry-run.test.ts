@@ -0,0 +1,146 @@
+/*
+ * CLI tool for managing Claude Code hooks
+ * Copyright (C) 2025  Peoples Grocers LLC
+ *
+ * This library is free software; you can redistribute it and/or
+ * modify it under the terms of the GNU Lesser General Public
+ * License as published by the Free Software Foundation; either
+ * version 2.1 of the License, or (at your option) any later version.
+ *
+ * This library is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the GNU
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public
+ * License along with this library; if not, see <https://www.gnu.org/licenses/>.
+ */
+import { test } from 'uvu';
+import * as assert from 'uvu/assert';
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import * as jsonc from 'jsonc-parser';
+import { installHooks } from '../commands/install';
+import { performInstallation } from '../install-phase';
+import { performUninstallation } from '../uninstall-phase';
+import { silentReporter } from '../reporter';
+import { unifiedDiff } from '../text-diff';
+import { Hooks } from '../types';
+
+/**
+ * DRY RUN TESTS
+ *
+ * These tests verify that a dry run works everything out but leaves the
+ * disk alone:
+ * - No directory or file is created, nothing is written
+ * - Without a .claude directory anywhere, it plans to create one here instead of asking
+ * - The summary says whether anything would change, and how
+ * - The in-process diff matches the diff -u format
+ */
+
+const HOOKS: Hooks = {
+  Stop: [{ matcher: '', hooks: [{ type: 'command', command: 'notify-done' }] }]
+};
+
+async function withTempDir<T>(run: (dir: string) => Promise<T>): Promise<T> {
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'hooks-dry-run-test-'));
+  try {
+    return await run(tempDir);
+  } finally {
+    await fs.rm(tempDir, { recursive: true });
+  }
+}
+
+test('dry run - install creates nothing', async () => {
+  await withTempDir(async (dir) => {
+    const result = await performInstallation(dir, true, HOOKS, 'settings.local.json', {
+      dryRun: true,
+      reporter: silentReporter
+    });
+
+    assert.ok(result.success);
+    assert.ok(result.dryRun);
+    assert.is(result.dryRun!.changed, true);
+    assert.is(result.dryRun!.createsDirectory, true);
+    assert.is(result.dryRun!.createsFile, true);
+    assert.is(result.dryRun!.addedCount, 1);
+    assert.equal(jsonc.parse(jsonc.applyEdits('', result.dryRun!.edits)), { hooks: HOOKS });
+    assert.equal(await fs.readdir(dir), []);
+  });
+});
+
+test('dry run - no .claude directory plans to create one here', async () => {
+  await withTempDir(async (dir) => {
+    const originalHome = process.env.HOME;
+    const originalCwd = process.cwd();
+    const project = path.join(dir, 'project');
+    await fs.mkdir(project);
+    process.env.HOME = dir;
+    process.chdir(project);
+    try {
+      const result = await installHooks(HOOKS, 'settings.local.json', { dryRun: true, reporter: silentReporter });
+
+      assert.ok(result.success);
+      assert.is(result.dryRun!.changed, true);
+      assert.is(result.dryRun!.createsDirectory, true);
+      assert.is(result.dryRun!.settingsPath, path.join(process.cwd(), '.claude', 'settings.local.json'));
+      assert.equal(await fs.readdir(project), []);
+    } finally {
+      process.chdir(originalCwd);
+      process.env.HOME = originalHome;
+    }
+  });
+});
+
+test('dry run - uninstall leaves the file as it was', async () => {
+  await withTempDir(async (dir) => {
+    const settingsPath = path.join(dir, '.claude', 'settings.local.json');
+    const content = JSON.stringify({ hooks: HOOKS }, null, 2);
+    await fs.mkdir(path.dirname(settingsPath));
+    await fs.writeFile(settingsPath, content);
+
+    const result = await performUninstallation(dir, { by: 'definition', hooks: HOOKS }, { dryRun: true, reporter: silentReporter });
+
+    assert.is(result.dryRun!.changed, true);
+    assert.is(result.dryRun!.removedCount, 1);
+    assert.is(await fs.readFile(settingsPath, 'utf-8'), content);
+    assert.equal(await fs.readdir(path.dirname(settingsPath)), ['settings.local.json']);
+  });
+});
+
+test('dry run - nothing to do reports no change', async () => {
+  await withTempDir(async (dir) => {
+    const settingsPath = path.join(dir, '.claude', 'settings.local.json');
+    await fs.mkdir(path.dirname(settingsPath));
+    await fs.writeFile(settingsPath, JSON.stringify({ hooks: HOOKS }, null, 2));
+
+    const result = await performInstallation(dir, false, HOOKS, 'settings.local.json', {
+      dryRun: true,
+      reporter: silentReporter
+    });
+
+    assert.is(result.dryRun!.changed, false);
+    assert.equal(result.dryRun!.edits, []);
+  });
+});
+
+test('dry run - unified diff format', () => {
+  const before = '{\n  "a": 1\n}\n';
+  const after = '{\n  "a": 1,\n  "b": 2\n}\n';
+
+  assert.is(unifiedDiff(before, after, 'settings.json'), [
+    '--- a/settings.json',
+    '+++ b/settings.json',
+    '@@ -1,3 +1,4 @@',
+    ' {',
+    '-  "a": 1',
+    '+  "a": 1,',
+    '+  "b": 2',
+    ' }',
+    ''
+  ].join('\n'));
+  assert.is(unifiedDiff(before, before, 'settings.json'), '');
+});
+
+test.run();
@@ -0,0 +1,68 @@
+/*
+ * CLI tool for managing Claude Code hooks
+ * Copyright (C) 2025  Peoples Grocers LLC
+ *
+ * This library is free software; you can redistribute it and/or
+ * modify it under the terms of the GNU Lesser General Public
+ * License as published by the Free Software Foundation; either
+ * version 2.1 of the License, or (at your option) any later version.
+ *
+ * This library is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the GNU
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public
+ * License along with this library; if not, see <https://www.gnu.org/licenses/>.
+ */
+import { test } from 'uvu';
+import * as assert from 'uvu/assert';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { planInstall } from '../install-phase';
+import { planUninstall } from '../uninstall-phase';
+import { detectFormatting } from '../formatting';
+import { Hooks } from '../types';
+
+/**
+ * FORMATTING DETECTION TESTS
+ *
+ * These tests verify that what we write looks like the rest of the file:
+ * - Indentation (tabs, or how many spaces), line endings and the final
+ *   newline are read from the existing text
+ * - Installing into a fixture gives exactly the expected text, in the
+ *   file's own style
+ * - Uninstalling again gives back the original, byte for byte
+ */
+
+const fixturesDir = path.join(__dirname, 'fixtures');
+
+const HOOKS: Hooks = {
+  PreToolUse: [{ matcher: '*', hooks: [{ type: 'command', command: 'my-tool PreToolUse' }] }],
+  Stop: [{ hooks: [{ type: 'command', command: 'my-tool Stop' }] }]
+};
+
+test('formatting detection - indentation, line endings, final newline', () => {
+  assert.equal(detectFormatting('{\r\n\t"a": {\r\n\t\t"b": 1\r\n\t}\r\n}\r\n'), {
+    tabSize: 2, insertSpaces: false, eol: '\r\n', finalNewline: true
+  });
+  assert.equal(detectFormatting('{\n    "a": {\n        "b": 1\n    }\n}'), {
+    tabSize: 4, insertSpaces: true, eol: '\n', finalNewline: false
+  });
+  // One oddly indented line doesn't change the verdict
+  assert.equal(detectFormatting('{\n   "a": 1,\n  "b": {\n    "c": 1\n  }\n}\n').tabSize, 2);
+  // Nothing to go on
+  assert.equal(detectFormatting('{}'), { tabSize: 2, insertSpaces: true, eol: '\n', finalNewline: false });
+});
+
+for (const name of ['tabs-crlf', 'four-spaces']) {
+  test(`formatting detection - ${name} fixture`, async () => {
+    const before = await fs.readFile(path.join(fixturesDir, `${name}-before.json`), 'utf-8');
+    const after = await fs.readFile(path.join(fixturesDir, `${name}-after.json`), 'utf-8');
+
+    assert.is(planInstall(before, HOOKS).newContent, after);
+    assert.is(planUninstall(after, HOOKS).newContent, before);
+  });
+}
+
+test.run();
@@ -0,0 +1,203 @@
+/*
+ * CLI tool for managing Claude Code hooks
+ * Copyright (C) 2025  Peoples Grocers LLC
+ *
+ * This library is free software; you can redistribute it and/or
+ * modify it under the terms of the GNU Lesser General Public
+ * License as published by the Free Software Foundation; either
+ * version 2.1 of the License, or (at your option) any later version.
+ *
+ * This library is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the GNU
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public
+ * License along with this library; if not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { test } from 'uvu';
+import * as assert from 'uvu/assert';
+import { spawnSync } from 'child_process';
+import { existsSync, promises as fs } from 'fs';
+import path from 'path';
+import prompts from 'prompts';
+import os from 'os';
+import { addToGitignore, findRepositoryRoot, hasUncommittedChanges, isIgnoredByGit, isInsideDirectory } from '../git';
+import { performInstallation } from '../install-phase';
+import { LEDGER_FILE } from '../ledger';
+import { installRecursively } from '../recursive-phase';
+import { ReporterEvent } from '../reporter';
+import { Hooks } from '../types';
+
+/**
+ * GIT TESTS
+ *
+ * These tests verify the git checks around installing:
+ * - The repository root is found from anywhere inside it, and nothing outside
+ * - Ignored settings files are recognised, through parent directories too
+ * - Only tracked files with changes count as uncommitted
+ * - An unignored settings.local.json gets a .gitignore entry when the user agrees, after the install
+ * - --yes doesn't answer the .gitignore offer: it only warns
+ * - A recursive install checks every project
+ * - A dry run warns but leaves .gitignore alone
+ * - Installing into a settings.json with uncommitted changes warns
+ */
+
+const HOOKS: Hooks = {
+  Stop: [{ hooks: [{ type: 'command', command: 'my-tool Stop' }] }]
+};
+
+function git(cwd: string, ...args: string[]): void {
+  const result = spawnSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], { cwd });
+  assert.is(result.status, 0, `git ${args.join(' ')} failed`);
+}
+
+async function withRepository(fn: (outside: string, repository: string) => Promise<void>): Promise<void> {
+  const outside = await fs.mkdtemp(path.join(os.tmpdir(), 'hooks-git-test-'));
+  const repository = path.join(outside, 'repo');
+  try {
+    await fs.mkdir(path.join(repository, '.claude'), { recursive: true });
+    git(repository, 'init', '--quiet');
+    await fn(outside, repository);
+  } finally {
+    await fs.rm(outside, { recursive: true });
+  }
+}
+
+test('git - finds the repository root from below it', async () => {
+  await withRepository(async (outside, repository) => {
+    assert.is(await findRepositoryRoot(path.join(repository, '.claude')), repository);
+    assert.is(await findRepositoryRoot(repository), repository);
+    assert.is(await findRepositoryRoot(outside), undefined);
+
+    assert.ok(isInsideDirectory(path.join(repository, 'packages'), repository));
+    assert.ok(isInsideDirectory(repository, repository));
+    assert.not.ok(isInsideDirectory(outside, repository));
+    assert.not.ok(isInsideDirectory(repository + '-other', repository));
+  });
+});
+
+test('git - recognises ignored settings files', async () => {
+  await withRepository(async (_outside, repository) => {
+    const settingsPath = path.join(repository, '.claude', 'settings.local.json');
+    assert.not.ok(await isIgnoredByGit(settingsPath, repository));
+
+    await addToGitignore(repository, '.claude/settings.local.json');
+    assert.ok(await isIgnoredByGit(settingsPath, repository));
+
+    await fs.writeFile(path.join(repository, '.gitignore'), '.claude/\n');
+    assert.ok(await isIgnoredByGit(settingsPath, repository), 'an ignored directory ignores what is inside');
+  });
+});
+
+test('git - adding to .gitignore keeps what is there', async () => {
+  await withRepository(async (_outside, repository) => {
+    await fs.writeFile(path.join(repository, '.gitignore'), 'dist');
+
+    const gitignorePath = await addToGitignore(repository, '.claude/settings.local.json');
+
+    assert.is(await fs.readFile(gitignorePath, 'utf-8'), 'dist\n.claude/settings.local.json\n');
+  });
+});
+
+test('git - only tracked files with changes are uncommitted', async () => {
+  await withRepository(async (_outside, repository) => {
+    const settingsPath = path.join(repository, '.claude', 'settings.json');
+    await fs.writeFile(settingsPath, '{}\n');
+    assert.not.ok(hasUncommittedChanges(settingsPath, repository), 'untracked');
+
+    git(repository, 'add', '.');
+    git(repository, 'commit', '--quiet', '-m', 'settings');
+    assert.not.ok(hasUncommittedChanges(settingsPath, repository), 'committed');
+
+    await fs.writeFile(settingsPath, '{ "model": "sonnet" }\n');
+    assert.ok(hasUncommittedChanges(settingsPath, repository));
+  });
+});
+
+test('git - install offers to ignore settings.local.json', async () => {
+  await withRepository(async (_outside, repository) => {
+    const events: ReporterEvent[] = [];
+    const reporter = { report: (event: ReporterEvent) => { events.push(event); } };
+
+    const dryRun = await performInstallation(repository, false, HOOKS, 'settings.local.json', { dryRun: true, reporter });
+    assert.ok(dryRun.success);
+    assert.ok(events.some(event => event.type === 'settings-not-ignored'));
+    assert.not.ok(await fs.stat(path.join(repository, '.gitignore')).catch(() => undefined), 'a dry run writes no .gitignore');
+
+    // Answer yes to the install, then yes to the .gitignore offer that follows it
+    const wasTTY = process.stdin.isTTY;
+    process.stdin.isTTY = true;
+    prompts.inject([true, true]);
+    let ignoredBeforeConfirming: boolean | undefined;
+    try {
+      const result = await performInstallation(repository, false, HOOKS, 'settings.local.json', {
+        reporter: {
+          report: event => {
+            if (event.type === 'diff') {
+              ignoredBeforeConfirming = existsSync(path.join(repository, '.gitignore'));
+            }
+          }
+        }
+      });
+      assert.ok(result.success);
+      assert.is(ignoredBeforeConfirming, false, 'nothing is asked or written until the install is confirmed');
+      assert.is(await fs.readFile(path.join(repository, '.gitignore'), 'utf-8'), '.claude/settings.local.json\n');
+      assert.ok(await isIgnoredByGit(result.settingsPath!, repository));
+      assert.ok(await isIgnoredByGit(path.join(repository, '.claude', LEDGER_FILE), repository), 'the ledger ignores itself');
+    } finally {
+      process.stdin.isTTY = wasTTY;
+    }
+  });
+});
+
+test('git - --yes warns but leaves .gitignore alone', async () => {
+  await withRepository(async (_outside, repository) => {
+    const events: ReporterEvent[] = [];
+    const result = await performInstallation(repository, false, HOOKS, 'settings.local.json', {
+      yes: true,
+      reporter: { report: event => { events.push(event); } }
+    });
+
+    assert.ok(result.success);
+    assert.ok(events.some(event => event.type === 'settings-not-ignored'));
+    assert.not.ok(existsSync(path.join(repository, '.gitignore')));
+  });
+});
+
+test('git - a recursive install warns about every unignored project', async () => {
+  await withRepository(async (_outside, repository) => {
+    await fs.mkdir(path.join(repository, 'packages', 'app', '.claude'), { recursive: true });
+    const events: ReporterEvent[] = [];
+    const result = await installRecursively(repository, HOOKS, {
+      yes: true,
+      reporter: { report: event => { events.push(event); } }
+    });
+
+    assert.ok(result.success);
+    assert.is(events.filter(event => event.type === 'settings-not-ignored').length, 2);
+    assert.not.ok(existsSync(path.join(repository, '.gitignore')));
+  });
+});
+
+test('git - install warns about uncommitted changes in settings.json', async () => {
+  await withRepository(async (_outside, repository) => {
+    const settingsPath = path.join(repository, '.claude', 'settings.json');
+    await fs.writeFile(settingsPath, '{}\n');
+    git(repository, 'add', '.');
+    git(repository, 'commit', '--quiet', '-m', 'settings');
+    await fs.writeFile(settingsPath, '{ "model": "sonnet" }\n');
+
+    const events: ReporterEvent[] = [];
+    await performInstallation(repository, false, HOOKS, 'settings.json', {
+      scope: 'project',
+      yes: true,
+      reporter: { report: event => { events.push(event); } }
+    });
+
+    assert.ok(events.some(event => event.type === 'uncommitted-changes' && event.path === settingsPath));
+  });
+});
+
+test.run();
@@ -0,0 +1,156 @@
+/*
+ * CLI tool for managing Claude Code hooks
+ * Copyright (C) 2025  Peoples Grocers LLC
+ *
+ * This library is free software; you can redistribute it and/or
+ * modify it under the terms of the GNU Lesser General Public
+ * License as published by the Free Software Foundation; either
+ * version 2.1 of the License, or (at your option) any later version.
+ *
+ * This library is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the GNU
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public
+ * License along with this library; if not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { test } from 'uvu';
+import * as assert from 'uvu/assert';
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import * as jsonc from 'jsonc-parser';
+import { addHooks } from '../install-phase';
+import { silentReporter } from '../reporter';
+import { Hooks } from '../types';
+
+/**
+ * INSTALL MERGE TESTS
+ *
+ * These tests verify that installing hooks merges into what the user already
+ * has instead of replacing it:
+ * - Matchers are appended to existing event arrays
+ * - Matchers that are already installed are skipped
+ * - Installing twice changes nothing
+ * - Hooks that belong to other tools survive byte for byte
+ */
+
+const HAPPY_CODER_HOOKS: Hooks = {
+  PreToolUse: [
+    {
+      matcher: "*",
+      hooks: [
+        {
+          type: "command",
+          command: "happy-coder-hooks PreToolUse"
+        }
+      ]
+    }
+  ]
+};
+
+/**
+ * Helper to run addHooks against a temporary settings file and return the result
+ */
+async function installInto(beforeContent: string | undefined, hooks: Hooks): Promise<string> {
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'hooks-merge-test-'));
+  const tempFile = path.join(tempDir, 'settings.local.json');
+
+  try {
+    if (beforeContent !== undefined) {
+      await fs.writeFile(tempFile, beforeContent);
+    }
+    await addHooks(tempFile, hooks, silentReporter);
+    return await fs.readFile(tempFile, 'utf-8');
+  } finally {
+    await fs.rm(tempDir, { recursive: true });
+  }
+}
+
+test('install merge - appends to an existing event array', async () => {
+  const userHooks = `{
+          "matcher": "Bash",
+          "hooks": [
+            // keep me
+            { "type": "command",   "command": "other-tool audit" }
+          ]
+        }`;
+  const beforeContent = `{
+    "hooks": {
+      "PreToolUse": [
+        ${userHooks}
+      ]
+    }
+  }`;
+
+  const afterContent = await installInto(beforeContent, HAPPY_CODER_HOOKS);
+  const after = jsonc.parse(afterContent);
+
+  assert.equal(after.hooks.PreToolUse.length, 2);
+  assert.equal(after.hooks.PreToolUse[0].hooks[0].command, "other-tool audit");
+  assert.equal(after.hooks.PreToolUse[1], HAPPY_CODER_HOOKS.PreToolUse[0]);
+  assert.ok(afterContent.includes(userHooks), 'user matcher should survive byte for byte');
+});
+
+test('install merge - one-line neighbours are not reformatted', async () => {
+  const beforeContent = `{
+  "hooks": {
+    "PreToolUse": [
+      {"matcher":"Bash","hooks":[{"type":"command","command":"other-tool audit"}]} // theirs
+    ]
+  }
+}`;
+
+  const afterContent = await installInto(beforeContent, HAPPY_CODER_HOOKS);
+
+  assert.ok(afterContent.includes(`{"matcher":"Bash","hooks":[{"type":"command","command":"other-tool audit"}]},`));
+  assert.equal(jsonc.parse(afterContent).hooks.PreToolUse[1], HAPPY_CODER_HOOKS.PreToolUse[0]);
+});
+
+test('install merge - installing twice changes nothing', async () => {
+  const beforeContent = `{
+    "some": "key",
+    "hooks": {
+      "PostToolUse": [
+        { "matcher": "Edit", "hooks": [{ "type": "command", "command": "formatter" }] }
+      ]
+    }
+  }`;
+
+  const once = await installInto(beforeContent, HAPPY_CODER_HOOKS);
+  const twice = await installInto(once, HAPPY_CODER_HOOKS);
+
+  assert.is(twice, once);
+});
+
+test('install merge - already installed matcher is not duplicated', async () => {
+  const beforeContent = `{
+    "hooks": {
+      "PreToolUse": [
+        {
+          "matcher": "*",
+          "hooks": [
+            {
+              "type": "command",
+              "command": "happy-coder-hooks PreToolUse"
+            }
+          ]
+        }
+      ]
+    }
+  }`;
+
+  const afterContent = await installInto(beforeContent, HAPPY_CODER_HOOKS);
+
+  assert.is(afterContent, beforeContent);
+});
+
+test('install merge - creates a new settings file when none exists', async () => {
+  const afterContent = await installInto(undefined, HAPPY_CODER_HOOKS);
+
+  assert.equal(jsonc.parse(afterContent), { hooks: HAPPY_CODER_HOOKS });
+});
+
+test.run();
@@ -0,0 +1,202 @@
+/*
+ * CLI tool for managing Claude Code hooks
+ * Copyright (C) 2025  Peoples Grocers LLC
+ *
+ * This library is free software; you can redistribute it and/or
+ * modify it under the terms of the GNU Lesser General Public
+ * License as published by the Free Software Foundation; either
+ * version 2.1 of the License, or (at your option) any later version.
+ *
+ * This library is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the GNU
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public
+ * License along with this library; if not, see <https://www.gnu.org/licenses/>.
+ */
+import { test } from 'uvu';
+import * as assert from 'uvu/assert';
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import { performInstallation } from '../install-phase';
+import { performUninstallation } from '../uninstall-phase';
+import { LEDGER_DIRECTORY, LEDGER_FILE, locateEntries, readLedger } from '../ledger';
+import { silentReporter } from '../reporter';
+import { Hooks } from '../types';
+
+/**
+ * LEDGER TESTS
+ *
+ * These tests verify that uninstall removes what install recorded:
+ * - Install records each matcher it adds, with its path and hash
+ * - A matcher the user edited is told apart from an untouched one
+ * - Someone else's matcher that took our old position is never claimed as ours
+ * - Uninstall finds our matchers even when the definition has changed since
+ * - The ledger forgets what was removed, and goes away once empty
+ * - A ledger where older versions kept it is still read, then moved
+ * - A matcher the user added a command to loses only our entry
+ * - Removing an edited matcher anyway still keeps the commands the user added to it
+ */
+
+const HOOKS: Hooks = {
+  PreToolUse: [{ matcher: '*', hooks: [{ type: 'command', command: 'my-tool PreToolUse' }] }],
+  Stop: [{ hooks: [{ type: 'command', command: 'my-tool Stop' }] }]
+};
+
+const DEFINITION = { id: 'my-tool-hooks', version: '1.0.0' };
+
+async function withInstalled<T>(run: (dir: string, settingsPath: string) => Promise<T>): Promise<T> {
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'hooks-ledger-test-'));
+  try {
+    await performInstallation(tempDir, true, HOOKS, 'settings.local.json', {
+      yes: true,
+      definition: DEFINITION,
+      reporter: silentReporter
+    });
+    return await run(tempDir, path.join(tempDir, '.claude', 'settings.local.json'));
+  } finally {
+    await fs.rm(tempDir, { recursive: true });
+  }
+}
+
+test('ledger - install records what it added', async () => {
+  await withInstalled(async (dir) => {
+    const ledger = await readLedger(path.join(dir, '.claude'));
+
+    assert.is(ledger.entries.length, 2);
+    assert.equal(ledger.entries.map(entry => entry.path), [['hooks', 'PreToolUse', 0], ['hooks', 'Stop', 0]]);
+    assert.ok(ledger.entries.every(entry => entry.definition.id === 'my-tool-hooks'));
+    assert.ok(ledger.entries.every(entry => entry.settingsFile === 'settings.local.json'));
+  });
+});
+
+test('ledger - edited matcher is located as modified', async () => {
+  await withInstalled(async (dir, settingsPath) => {
+    const content = await fs.readFile(settingsPath, 'utf-8');
+    const edited = content.replace('"matcher": "*"', '"matcher": "Bash"');
+    const { entries } = await readLedger(path.join(dir, '.claude'));
+
+    assert.equal(locateEntries(content, entries).map(located => located.status), ['unmodified', 'unmodified']);
+    assert.equal(locateEntries(edited, entries).map(located => located.status), ['modified', 'unmodified']);
+    assert.equal(locateEntries('{}', entries).map(located => located.status), ['missing', 'missing']);
+  });
+});
+
+test('ledger - a user matcher in our old position is not ours', async () => {
+  await withInstalled(async (dir, settingsPath) => {
+    // The user deleted our PreToolUse matcher and added their own, which landed at its index
+    const settings = JSON.parse(await fs.readFile(settingsPath, 'utf-8'));
+    const theirs = { matcher: 'Edit', hooks: [{ type: 'command', command: 'user-b' }] };
+    settings.hooks.PreToolUse = [theirs];
+    await fs.writeFile(settingsPath, JSON.stringify(settings, null, 2));
+    const { entries } = await readLedger(path.join(dir, '.claude'));
+
+    assert.equal(locateEntries(await fs.readFile(settingsPath, 'utf-8'), entries).map(located => located.status), ['missing', 'unmodified']);
+
+    const dryRun = await performUninstallation(dir, { by: 'ledger' }, { definition: DEFINITION, dryRun: true, reporter: silentReporter });
+    assert.is(dryRun.dryRun!.removedCount, 1);
+
+    await performUninstallation(dir, { by: 'ledger' }, { definition: DEFINITION, yes: true, reporter: silentReporter });
+    assert.equal(JSON.parse(await fs.readFile(settingsPath, 'utf-8')), { hooks: { PreToolUse: [theirs] } });
+  });
+});
+
+test('ledger - uninstall removes recorded matchers after the definition changed', async () => {
+  await withInstalled(async (dir, settingsPath) => {
+    const changedDefinition: Hooks = {
+      Stop: [{ hooks: [{ type: 'command', command: 'my-tool-v2 Stop' }] }]
+    };
+
+    const result = await performUninstallation(dir, { by: 'definition', hooks: changedDefinition }, {
+      definition: DEFINITION,
+      yes: true,
+      reporter: silentReporter
+    });
+
+    assert.ok(result.success);
+    assert.equal(JSON.parse(await fs.readFile(settingsPath, 'utf-8')), {});
+    assert.not.ok((await fs.readdir(path.join(dir, '.claude'))).includes(LEDGER_DIRECTORY));
+  });
+});
+
+test('ledger - edited matcher is kept until confirmed', async () => {
+  await withInstalled(async (dir, settingsPath) => {
+    const content = await fs.readFile(settingsPath, 'utf-8');
+    await fs.writeFile(settingsPath, content.replace('"matcher": "*"', '"matcher": "Bash"'));
+
+    // No TTY and no --yes: the question about the edited matcher stops the run
+    let stopped = false;
+    try {
+      await performUninstallation(dir, { by: 'ledger' }, { definition: DEFINITION, reporter: silentReporter });
+    } catch (error) {
+      stopped = (error as Error).name === 'DecisionRequiredError';
+    }
+    assert.ok(stopped);
+
+    await performUninstallation(dir, { by: 'ledger' }, { definition: DEFINITION, yes: true, reporter: silentReporter });
+    assert.equal(JSON.parse(await fs.readFile(settingsPath, 'utf-8')), {});
+    assert.equal(await readLedger(path.join(dir, '.claude')), { version: 1, entries: [] });
+  });
+});
+
+test('ledger - a command added next to ours keeps the matcher, without asking', async () => {
+  await withInstalled(async (dir, settingsPath) => {
+    const settings = JSON.parse(await fs.readFile(settingsPath, 'utf-8'));
+    settings.hooks.Stop[0].hooks.push({ type: 'command', command: 'say done' });
+    await fs.writeFile(settingsPath, JSON.stringify(settings, null, 2));
+
+    // No --yes: only the final confirmation may ask, not the edited-matcher question
+    const events: string[] = [];
+    try {
+      await performUninstallation(dir, { by: 'definition', hooks: HOOKS }, {
+        definition: DEFINITION,
+        reporter: { report: event => events.push(event.type) }
+      });
+    } catch {
+      // Stops at the final confirmation
+    }
+    assert.not.ok(events.includes('modified-entries'));
+
+    await performUninstallation(dir, { by: 'definition', hooks: HOOKS }, { definition: DEFINITION, yes: true, reporter: silentReporter });
+    assert.equal(JSON.parse(await fs.readFile(settingsPath, 'utf-8')), {
+      hooks: { Stop: [{ hooks: [{ type: 'command', command: 'say done' }] }] }
+    });
+    assert.equal(await readLedger(path.join(dir, '.claude')), { version: 1, entries: [] });
+  });
+});
+
+test('ledger - removing an edited matcher anyway keeps what the user added', async () => {
+  await withInstalled(async (dir, settingsPath) => {
+    const settings = JSON.parse(await fs.readFile(settingsPath, 'utf-8'));
+    settings.hooks.PreToolUse[0].matcher = 'Bash';
+    settings.hooks.PreToolUse[0].hooks.push({ type: 'command', command: 'user-lint' });
+    await fs.writeFile(settingsPath, JSON.stringify(settings, null, 2));
+
+    const result = await performUninstallation(dir, { by: 'ledger' }, { definition: DEFINITION, yes: true, reporter: silentReporter });
+
+    assert.ok(result.success);
+    assert.is(result.removedCount, 2);
+    assert.equal(JSON.parse(await fs.readFile(settingsPath, 'utf-8')), {
+      hooks: { PreToolUse: [{ matcher: 'Bash', hooks: [{ type: 'command', command: 'user-lint' }] }] }
+    });
+    assert.equal(await readLedger(path.join(dir, '.claude')), { version: 1, entries: [] });
+  });
+});
+
+test('ledger - a ledger in the old place is read and moved', async () => {
+  await withInstalled(async (dir, settingsPath) => {
+    const claudeDir = path.join(dir, '.claude');
+    await fs.rename(path.join(claudeDir, LEDGER_FILE), path.join(claudeDir, '.cchooks-ledger.json'));
+    await fs.rm(path.join(claudeDir, LEDGER_DIRECTORY), { recursive: true });
+
+    assert.is((await readLedger(claudeDir)).entries.length, 2);
+
+    await performUninstallation(dir, { by: 'ledger' }, { definition: DEFINITION, yes: true, reporter: silentReporter });
+    assert.equal(JSON.parse(await fs.readFile(settingsPath, 'utf-8')), {});
+    assert.not.ok((await fs.readdir(claudeDir)).includes('.cchooks-ledger.json'));
+  });
+});
+
+test.run();
@@ -0,0 +1,117 @@
+/*
+ * CLI tool for managing Claude Code hooks
+ * Copyright (C) 2025  Peoples Grocers LLC
+ *
+ * This library is free software; you can redistribute it and/or
+ * modify it under the terms of the GNU Lesser General Public
+ * License as published by the Free Software Foundation; either
+ * version 2.1 of the License, or (at your option) any later version.
+ *
+ * This library is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the GNU
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public
+ * License along with this library; if not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { test } from 'uvu';
+import * as assert from 'uvu/assert';
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import { listEffectiveHooks } from '../list-phase';
+import { Hooks } from '../types';
+
+/**
+ * LIST TESTS
+ *
+ * These tests verify that listing finds hooks in every settings file that
+ * applies to a directory and reports where each one came from:
+ * - User settings first, then each ancestor project, outermost first
+ * - Line numbers point at the hook entry itself
+ * - Entries from a known definition are labelled with its name
+ * - Malformed entries are skipped instead of crashing the listing
+ */
+
+const KNOWN: Hooks = {
+  PreToolUse: [
+    {
+      matcher: "*",
+      hooks: [
+        {
+          type: "command",
+          command: "happy-coder-hooks PreToolUse"
+        }
+      ]
+    }
+  ]
+};
+
+async function withFakeHome(fn: (home: string) => Promise<void>): Promise<void> {
+  const home = await fs.mkdtemp(path.join(os.tmpdir(), 'hooks-list-test-'));
+  const originalHome = process.env.HOME;
+  process.env.HOME = home;
+  try {
+    await fn(home);
+  } finally {
+    process.env.HOME = originalHome;
+    await fs.rm(home, { recursive: true });
+  }
+}
+
+test('list - collects hooks from user and ancestor project settings', async () => {
+  await withFakeHome(async (home) => {
+    const project = path.join(home, 'src', 'project');
+    const nested = path.join(project, 'packages', 'app');
+    await fs.mkdir(path.join(home, '.claude'), { recursive: true });
+    await fs.mkdir(path.join(project, '.claude'), { recursive: true });
+    await fs.mkdir(path.join(nested, '.claude'), { recursive: true });
+
+    await fs.writeFile(path.join(home, '.claude', 'settings.json'), `{
+  "hooks": {
+    "Stop": [{ "hooks": [{ "type": "command", "command": "say done" }] }]
+  }
+}`);
+    await fs.writeFile(path.join(project, '.claude', 'settings.local.json'), `{
+  // ours
+  "hooks": {
+    "PreToolUse": [
+      {
+        "matcher": "*",
+        "hooks": [
+          { "type": "command", "command": "happy-coder-hooks PreToolUse" },
+          "not-a-hook"
+        ]
+      }
+    ]
+  }
+}`);
+    await fs.writeFile(path.join(nested, '.claude', 'settings.json'), `{ "hooks": { "PreToolUse": "broken" } }`);
+
+    const listing = await listEffectiveHooks({ 'happy-coder-hooks': KNOWN }, nested);
+
+    assert.equal(listing.sources.map(source => [source.scope, path.relative(home, source.path), source.exists]), [
+      ['user', '.claude/settings.json', true],
+      ['project', 'src/project/.claude/settings.json', false],
+      ['local', 'src/project/.claude/settings.local.json', true],
+      ['project', 'src/project/packages/app/.claude/settings.json', true],
+      ['local', 'src/project/packages/app/.claude/settings.local.json', false]
+    ]);
+
+    assert.equal(listing.hooks.map(entry => ({
+      eventName: entry.eventName,
+      matcher: entry.matcher,
+      command: entry.hook.command,
+      scope: entry.scope,
+      line: entry.line,
+      definitionName: entry.definitionName
+    })), [
+      { eventName: 'Stop', matcher: '', command: 'say done', scope: 'user', line: 3, definitionName: undefined },
+      { eventName: 'PreToolUse', matcher: '*', command: 'happy-coder-hooks PreToolUse', scope: 'local', line: 8, definitionName: 'happy-coder-hooks' }
+    ]);
+  });
+});
+
+test.run();
@@ -0,0 +1,202 @@
+/*
+ * CLI tool for managing Claude Code hooks
+ * Copyright (C) 2025  Peoples Grocers LLC
+ *
+ * This library is free software; you can redistribute it and/or
+ * modify it under the terms of the GNU Lesser General Public
+ * License as published by the Free Software Foundation; either
+ * version 2.1 of the License, or (at your option) any later version.
+ *
+ * This library is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the GNU
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public
+ * License along with this library; if not, see <https://www.gnu.org/licenses/>.
+ */
+import { test } from 'uvu';
+import * as assert from 'uvu/assert';
+import * as jsonc from 'jsonc-parser';
+import { planInstall } from '../install-phase';
+import { planBinaryUninstall, planUninstall } from '../uninstall-phase';
+import { editsBetween } from '../text-diff';
+import { Hooks } from '../types';
+
+/**
+ * PLANNING API TESTS
+ *
+ * These tests verify the pure planners used by addHooks and the removers:
+ * - The returned edits apply to the original text and give the new text
+ * - Edits are small and only cover what changed
+ * - Counts and warnings come back instead of being printed
+ * - Matchers shared with the user's own commands lose or gain only our entries
+ */
+
+const HOOKS: Hooks = {
+  Stop: [{ matcher: '', hooks: [{ type: 'command', command: 'happy-coder-hooks Stop' }] }]
+};
+
+const SETTINGS = `{
+  // my settings
+  "model": "opus",
+  "hooks": {
+    "Stop": [
+      { "matcher": "", "hooks": [{ "type": "command", "command": "say done" }] }
+    ]
+  }
+}
+`;
+
+test('plan - install edits reproduce the planned text', () => {
+  const plan = planInstall(SETTINGS, HOOKS);
+
+  assert.is(plan.addedCount, 1);
+  assert.is(plan.skippedCount, 0);
+  assert.equal(plan.warnings, []);
+  assert.is(jsonc.applyEdits(SETTINGS, plan.edits), plan.newContent);
+
+  // One insertion right after the existing matcher, nothing else touched
+  assert.is(plan.edits.length, 1);
+  assert.is(plan.edits[0].length, 0);
+  assert.ok(plan.edits[0].content.startsWith(','));
+});
+
+test('plan - installing what is already there plans no edits', () => {
+  const installed = planInstall(SETTINGS, HOOKS).newContent;
+  const plan = planInstall(installed, HOOKS);
+
+  assert.is(plan.newContent, installed);
+  assert.equal(plan.edits, []);
+  assert.is(plan.addedCount, 0);
+  assert.is(plan.skippedCount, 1);
+});
+
+test('plan - uninstall removes only the definition', () => {
+  const installed = planInstall(SETTINGS, HOOKS).newContent;
+  const plan = planUninstall(installed, HOOKS);
+
+  assert.is(plan.removedCount, 1);
+  assert.is(jsonc.applyEdits(installed, plan.edits), plan.newContent);
+  assert.equal(jsonc.parse(plan.newContent), jsonc.parse(SETTINGS));
+  assert.ok(plan.newContent.includes('// my settings'));
+});
+
+test('plan - binary uninstall matches by command', () => {
+  const plan = planBinaryUninstall(SETTINGS, 'say');
+
+  assert.is(plan.removedCount, 1);
+  assert.is(jsonc.applyEdits(SETTINGS, plan.edits), plan.newContent);
+  assert.equal(jsonc.parse(plan.newContent), { model: 'opus' });
+});
+
+test('plan - binary uninstall leaves commands that only mention the binary', () => {
+  const shared = SETTINGS.replace('"say done" }', '"say done" }, { "type": "command", "command": "npx say@2 done" }');
+  const plan = planBinaryUninstall(shared, 'say-hello');
+  assert.is(plan.removedCount, 0);
+
+  const removal = planBinaryUninstall(SETTINGS.replace('"say done"', '"echo say"'), 'say');
+  assert.is(removal.removedCount, 0);
+
+  // Both entries run say, so their matcher goes whole
+  const both = planBinaryUninstall(shared, 'say');
+  assert.is(both.removedCount, 1);
+  assert.equal(jsonc.parse(both.newContent), { model: 'opus' });
+});
+
+test('plan - problems come back as warnings', () => {
+  const plan = planInstall('{ "hooks": { "Stop": "oops" } }', HOOKS);
+
+  assert.is(plan.addedCount, 0);
+  assert.equal(plan.warnings, ['hooks.Stop is not an array, so I left it alone']);
+});
+
+test('plan - install writes every hook field', () => {
+  const hooks: Hooks = {
+    Stop: [{ hooks: [{ type: 'command', command: 'notify-done', timeout: 30, statusMessage: 'Notifying' }] }]
+  };
+  const plan = planInstall('{}', hooks);
+
+  assert.equal(jsonc.parse(plan.newContent), { hooks });
+});
+
+test('plan - uninstall ignores a changed timeout unless matching exactly', () => {
+  const hooks: Hooks = {
+    Stop: [{ hooks: [{ type: 'command', command: 'notify-done', timeout: 30 }] }]
+  };
+  const raised = planInstall('{}', hooks).newContent.replace('30', '120');
+
+  assert.is(planUninstall(raised, hooks).removedCount, 1);
+  assert.is(planUninstall(raised, hooks, 'identity').removedCount, 1);
+  assert.is(planUninstall(raised, hooks, 'exact').removedCount, 0);
+  assert.is(planUninstall(planInstall('{}', hooks).newContent, hooks, 'exact').removedCount, 1);
+});
+
+test('plan - installing over a raised timeout leaves it alone', () => {
+  const hooks: Hooks = {
+    Stop: [{ hooks: [{ type: 'command', command: 'notify-done', timeout: 30 }] }]
+  };
+  const raised = planInstall('{}', hooks).newContent.replace('30', '120');
+  const plan = planInstall(raised, hooks);
+
+  assert.is(plan.newContent, raised);
+  assert.is(plan.skippedCount, 1);
+});
+
+test('plan - uninstall takes our entry out of a matcher shared with the user', () => {
+  const shared = `{
+  "hooks": {
+    "Stop": [
+      {
+        "matcher": "",
+        "hooks": [
+          { "type": "command", "command": "happy-coder-hooks Stop" },
+          // mine
+          { "type": "command", "command": "say done" }
+        ]
+      }
+    ]
+  }
+}
+`;
+  const plan = planUninstall(shared, HOOKS);
+
+  assert.is(plan.removedCount, 1);
+  assert.is(jsonc.applyEdits(shared, plan.edits), plan.newContent);
+  assert.equal(jsonc.parse(plan.newContent), {
+    hooks: { Stop: [{ matcher: '', hooks: [{ type: 'command', command: 'say done' }] }] }
+  });
+  assert.ok(plan.newContent.includes('// mine'));
+});
+
+test('plan - install does not repeat an entry already in a shared matcher', () => {
+  const hooks: Hooks = {
+    Stop: [{ matcher: '', hooks: [
+      { type: 'command', command: 'happy-coder-hooks Stop' },
+      { type: 'command', command: 'happy-coder-hooks Notify' }
+    ] }]
+  };
+  const shared = SETTINGS.replace('"say done" }', '"say done" }, { "type": "command", "command": "happy-coder-hooks Stop" }');
+
+  const plan = planInstall(shared, hooks);
+  assert.is(plan.addedCount, 1);
+  assert.equal(jsonc.parse(plan.newContent).hooks.Stop[1], {
+    matcher: '',
+    hooks: [{ type: 'command', command: 'happy-coder-hooks Notify' }]
+  });
+
+  const again = planInstall(plan.newContent, hooks);
+  assert.is(again.newContent, plan.newContent);
+  assert.is(again.skippedCount, 1);
+});
+
+test('plan - editsBetween handles changes spread through a file', () => {
+  const before = 'a\nb\nc\nd\ne\n';
+  const after = 'a\nB\nc\nd\ne\nf\n';
+  const edits = editsBetween(before, after);
+
+  assert.is(edits.length, 2);
+  assert.is(jsonc.applyEdits(before, edits), after);
+});
+
+test.run();
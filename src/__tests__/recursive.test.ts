@@ -0,0 +1,246 @@
+/*
+ * CLI tool for managing Claude Code hooks
+ * Copyright (C) 2025  Peoples Grocers LLC
+ *
+ * This library is free software; you can redistribute it and/or
+ * modify it under the terms of the GNU Lesser General Public
+ * License as published by the Free Software Foundation; either
+ * version 2.1 of the License, or (at your option) any later version.
+ *
+ * This library is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the GNU
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public
+ * License along with this library; if not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { test } from 'uvu';
+import * as assert from 'uvu/assert';
+import { existsSync, promises as fs } from 'fs';
+import path from 'path';
+import prompts from 'prompts';
+import os from 'os';
+import { findClaudeDirectoriesBelow } from '../discovery-phase';
+import { isIgnored, parseGitignore } from '../gitignore';
+import { installRecursively, uninstallRecursively } from '../recursive-phase';
+import { DecisionRequiredError } from '../decision-phase';
+import { withSettingsLock } from '../atomic-write';
+import { readLedger } from '../ledger';
+import { ReporterEvent, silentReporter } from '../reporter';
+import { Hooks } from '../types';
+
+/**
+ * RECURSIVE TESTS
+ *
+ * These tests verify install and uninstall across every project in a monorepo:
+ * - .gitignore rules are read the way git reads them, negations included
+ * - The search skips ignored directories, node_modules and .git
+ * - One run installs into every project, with one plan and one diff
+ * - A dry run writes nothing and says which projects would change
+ * - A project whose settings don't parse is reported and the others still change
+ * - Each project is locked from planning to writing; a locked one is reported and skipped
+ * - Several projects and no terminal stop with a decision instead of guessing
+ * - Uninstall takes the definition out of every project again
+ * - Edited matchers are asked about once, after every project is planned
+ */
+
+const HOOKS: Hooks = {
+  Stop: [{ hooks: [{ type: 'command', command: 'my-tool Stop' }] }]
+};
+
+const DEFINITION = { id: 'my-tool-hooks' };
+
+async function withMonorepo(fn: (root: string) => Promise<void>): Promise<void> {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), 'hooks-recursive-test-'));
+  try {
+    for (const project of ['', 'packages/app', 'packages/lib', 'packages/build-output', 'node_modules/some-dep']) {
+      await fs.mkdir(path.join(root, project, '.claude'), { recursive: true });
+    }
+    await fs.writeFile(path.join(root, '.gitignore'), 'build-output/\n');
+    await fs.writeFile(path.join(root, 'packages', 'app', '.claude', 'settings.local.json'), '{\n  // mine\n  "model": "sonnet"\n}\n');
+    await fn(root);
+  } finally {
+    await fs.rm(root, { recursive: true });
+  }
+}
+
+test('recursive - gitignore rules match like git', () => {
+  const rules = [
+    ...parseGitignore('# build output\ndist/\n*.log\n/coverage\n!keep.log\n'),
+    ...parseGitignore('generated/**\n', 'packages/app')
+  ];
+
+  assert.ok(isIgnored(rules, 'dist', true));
+  assert.ok(isIgnored(rules, 'packages/lib/dist', true));
+  assert.not.ok(isIgnored(rules, 'dist', false), 'dist/ only matches directories');
+  assert.ok(isIgnored(rules, 'packages/lib/debug.log', false));
+  assert.not.ok(isIgnored(rules, 'keep.log', false), 'a later ! rule wins');
+  assert.ok(isIgnored(rules, 'coverage', true));
+  assert.not.ok(isIgnored(rules, 'packages/coverage', true), 'a leading / anchors to the .gitignore');
+  assert.ok(isIgnored(rules, 'packages/app/generated/types', true));
+  assert.not.ok(isIgnored(rules, 'packages/lib/generated/types', true), 'rules only apply below their .gitignore');
+});
+
+test('recursive - finds projects, skipping ignored directories and node_modules', async () => {
+  await withMonorepo(async (root) => {
+    const projects = await findClaudeDirectoriesBelow(root);
+
+    assert.equal(projects, [root, path.join(root, 'packages', 'app'), path.join(root, 'packages', 'lib')]);
+  });
+});
+
+test('recursive - installs into every project with one diff', async () => {
+  await withMonorepo(async (root) => {
+    const events: ReporterEvent[] = [];
+    const result = await installRecursively(root, HOOKS, {
+      yes: true,
+      definition: DEFINITION,
+      reporter: { report: event => { events.push(event); } }
+    });
+
+    assert.ok(result.success);
+    assert.equal(result.files.map(file => file.changedCount), [1, 1, 1]);
+
+    const diffs = events.filter(event => event.type === 'diffs');
+    assert.is(diffs.length, 1, 'every change is shown in one diff');
+    assert.is(diffs[0].type === 'diffs' && diffs[0].files.length, 3);
+
+    const app = await fs.readFile(path.join(root, 'packages', 'app', '.claude', 'settings.local.json'), 'utf-8');
+    assert.ok(app.includes('// mine'), 'comments are kept');
+    assert.ok(app.includes('my-tool Stop'));
+    const ledger = await readLedger(path.join(root, 'packages', 'lib', '.claude'));
+    assert.is(ledger.entries.length, 1, 'each project gets its own ledger entry');
+
+    // Installing again changes nothing
+    const again = await installRecursively(root, HOOKS, { yes: true, definition: DEFINITION, reporter: silentReporter });
+    assert.equal(again.files.map(file => file.changedCount), [0, 0, 0]);
+  });
+});
+
+test('recursive - dry run writes nothing', async () => {
+  await withMonorepo(async (root) => {
+    const result = await installRecursively(root, HOOKS, { dryRun: true, yes: true, reporter: silentReporter });
+
+    assert.ok(result.success);
+    assert.ok(result.files.every(file => file.dryRun?.changed));
+    assert.equal(await fs.readdir(path.join(root, 'packages', 'lib', '.claude')), []);
+  });
+});
+
+test('recursive - a broken project is reported and the rest still change', async () => {
+  await withMonorepo(async (root) => {
+    const broken = path.join(root, 'packages', 'lib', '.claude', 'settings.local.json');
+    await fs.writeFile(broken, '{ "hooks": ');
+
+    const result = await installRecursively(root, HOOKS, { yes: true, reporter: silentReporter });
+
+    assert.not.ok(result.success);
+    assert.equal(result.files.map(file => file.success), [true, true, false]);
+    assert.is(await fs.readFile(broken, 'utf-8'), '{ "hooks": ', 'the broken file is left alone');
+    const app = await fs.readFile(path.join(root, 'packages', 'app', '.claude', 'settings.local.json'), 'utf-8');
+    assert.ok(app.includes('my-tool Stop'));
+  });
+});
+
+test('recursive - projects are locked from planning to writing', async () => {
+  await withMonorepo(async (root) => {
+    const locked = path.join(root, 'packages', 'lib', '.claude', 'settings.local.json');
+    const app = path.join(root, 'packages', 'app', '.claude', 'settings.local.json');
+
+    let lockedWhilePlanning = false;
+    const result = await withSettingsLock(locked, () => installRecursively(root, HOOKS, {
+      yes: true,
+      reporter: {
+        report: event => {
+          if (event.type === 'recursive-plan') {
+            lockedWhilePlanning = existsSync(path.join(path.dirname(app), '.settings.local.json.lock'));
+          }
+        }
+      }
+    }));
+
+    assert.ok(lockedWhilePlanning);
+    assert.equal(result.files.map(file => file.success), [true, true, false]);
+    assert.match(result.files[2].error ?? '', /Another cchooks process/);
+    assert.ok((await fs.readFile(app, 'utf-8')).includes('my-tool Stop'));
+    assert.not.ok((await fs.readdir(path.dirname(app))).some(name => name.endsWith('.lock')), 'the locks are released');
+  });
+});
+
+test('recursive - several projects and no terminal need a decision', async () => {
+  await withMonorepo(async (root) => {
+    try {
+      await installRecursively(root, HOOKS, { reporter: silentReporter });
+      assert.unreachable('should have needed a decision');
+    } catch (error) {
+      assert.instance(error, DecisionRequiredError);
+    }
+  });
+});
+
+test('recursive - uninstall takes the definition out of every project', async () => {
+  await withMonorepo(async (root) => {
+    await installRecursively(root, HOOKS, { yes: true, definition: DEFINITION, reporter: silentReporter });
+
+    const result = await uninstallRecursively(root, { by: 'definition', hooks: HOOKS }, {
+      yes: true,
+      definition: DEFINITION,
+      reporter: silentReporter
+    });
+
+    assert.ok(result.success);
+    assert.equal(result.files.map(file => file.changedCount), [1, 1, 1]);
+    const app = await fs.readFile(path.join(root, 'packages', 'app', '.claude', 'settings.local.json'), 'utf-8');
+    assert.is(app, '{\n  // mine\n  "model": "sonnet"\n}\n');
+  });
+});
+
+test('recursive - edited matchers are asked about once, after planning', async () => {
+  await withMonorepo(async (root) => {
+    await installRecursively(root, HOOKS, { yes: true, definition: DEFINITION, reporter: silentReporter });
+    const edited = ['', 'packages/lib'].map(project => path.join(root, project, '.claude', 'settings.local.json'));
+    for (const settingsPath of edited) {
+      const settings = JSON.parse(await fs.readFile(settingsPath, 'utf-8'));
+      settings.hooks.Stop[0].hooks.push({ type: 'command', command: 'user-notify' });
+      await fs.writeFile(settingsPath, JSON.stringify(settings, null, 2));
+    }
+
+    const events: ReporterEvent[] = [];
+    const reporter = { report: (event: ReporterEvent) => { events.push(event); } };
+    try {
+      await uninstallRecursively(root, { by: 'ledger' }, { definition: DEFINITION, reporter });
+      assert.unreachable('should have needed a decision');
+    } catch (error) {
+      assert.instance(error, DecisionRequiredError);
+    }
+    const types = events.map(event => event.type);
+    assert.is(types.filter(type => type === 'modified-entries').length, 2);
+    assert.ok(types.indexOf('recursive-plan') < types.indexOf('modified-entries'), 'every project is planned first');
+
+    // No to the edited matchers, yes to cleaning the one project left
+    const wasTTY = process.stdin.isTTY;
+    process.stdin.isTTY = true;
+    prompts.inject([false, true]);
+    try {
+      const result = await uninstallRecursively(root, { by: 'ledger' }, { definition: DEFINITION, reporter: silentReporter });
+      assert.ok(result.success);
+      assert.equal(result.files.map(file => file.changedCount), [0, 1, 0]);
+    } finally {
+      process.stdin.isTTY = wasTTY;
+    }
+    for (const settingsPath of edited) {
+      assert.ok((await fs.readFile(settingsPath, 'utf-8')).includes('my-tool Stop'), 'edited matchers are left alone');
+    }
+
+    const result = await uninstallRecursively(root, { by: 'ledger' }, { yes: true, definition: DEFINITION, reporter: silentReporter });
+    assert.equal(result.files.map(file => file.changedCount), [1, 0, 1]);
+    for (const settingsPath of edited) {
+      const settings = JSON.parse(await fs.readFile(settingsPath, 'utf-8'));
+      assert.equal(settings.hooks.Stop, [{ hooks: [{ type: 'command', command: 'user-notify' }] }]);
+    }
+  });
+});
+
+test.run();
@@ -0,0 +1,108 @@
+/*
+ * CLI tool for managing Claude Code hooks
+ * Copyright (C) 2025  Peoples Grocers LLC
+ *
+ * This library is free software; you can redistribute it and/or
+ * modify it under the terms of the GNU Lesser General Public
+ * License as published by the Free Software Foundation; either
+ * version 2.1 of the License, or (at your option) any later version.
+ *
+ * This library is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the GNU
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public
+ * License along with this library; if not, see <https://www.gnu.org/licenses/>.
+ */
+import { test } from 'uvu';
+import * as assert from 'uvu/assert';
+import { promises as fs } from 'fs';
+import { PassThrough } from 'stream';
+import path from 'path';
+import os from 'os';
+import { addHooks, performInstallation } from '../install-phase';
+import { createJsonLinesReporter, Reporter, ReporterEvent } from '../reporter';
+import { Hooks } from '../types';
+
+/**
+ * REPORTER TESTS
+ *
+ * These tests verify that the phases describe what they do as events
+ * instead of printing:
+ * - Library calls report through the reporter they are given
+ * - Problems in the settings file arrive as warning events
+ * - The JSON lines reporter writes one parseable object per event
+ */
+
+const HOOKS: Hooks = {
+  Stop: [{ matcher: '', hooks: [{ type: 'command', command: 'notify-done' }] }]
+};
+
+/**
+ * Reporter that remembers every event it was given
+ */
+function collectingReporter(): Reporter & { events: ReporterEvent[] } {
+  const events: ReporterEvent[] = [];
+  return {
+    events,
+    report(event) {
+      events.push(event);
+    }
+  };
+}
+
+async function withTempDir<T>(run: (dir: string) => Promise<T>): Promise<T> {
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'hooks-reporter-test-'));
+  try {
+    return await run(tempDir);
+  } finally {
+    await fs.rm(tempDir, { recursive: true });
+  }
+}
+
+test('reporter - addHooks reports reading and adding', async () => {
+  await withTempDir(async (dir) => {
+    const reporter = collectingReporter();
+    const settingsPath = path.join(dir, 'settings.json');
+
+    await addHooks(settingsPath, HOOKS, reporter);
+
+    assert.equal(reporter.events, [
+      { type: 'settings-read', path: settingsPath, exists: false },
+      { type: 'hooks-added', path: settingsPath, addedCount: 1, skippedCount: 0 }
+    ]);
+  });
+});
+
+test('reporter - a non-array event is reported as a warning', async () => {
+  await withTempDir(async (dir) => {
+    const reporter = collectingReporter();
+    const settingsPath = path.join(dir, 'settings.json');
+    await fs.writeFile(settingsPath, '{ "hooks": { "Stop": "oops" } }');
+
+    await addHooks(settingsPath, HOOKS, reporter);
+
+    const warnings = reporter.events.filter(event => event.type === 'warning');
+    assert.equal(warnings, [{ type: 'warning', message: 'hooks.Stop is not an array, so I left it alone' }]);
+  });
+});
+
+test('reporter - JSON lines reporter follows a whole installation', async () => {
+  await withTempDir(async (dir) => {
+    const stream = new PassThrough();
+    let output = '';
+    stream.on('data', chunk => { output += chunk; });
+
+    const result = await performInstallation(dir, true, HOOKS, 'settings.local.json', {
+      yes: true,
+      reporter: createJsonLinesReporter(stream)
+    });
+
+    assert.ok(result.success);
+    const types = output.trim().split('\n').map(line => JSON.parse(line).type);
+    assert.equal(types, ['installing', 'settings-read', 'diff', 'directory-created', 'file-created']);
+  });
+});
+
+test.run();
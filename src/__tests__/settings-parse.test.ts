@@ -0,0 +1,115 @@
+/*
+ * CLI tool for managing Claude Code hooks
+ * Copyright (C) 2025  Peoples Grocers LLC
+ *
+ * This library is free software; you can redistribute it and/or
+ * modify it under the terms of the GNU Lesser General Public
+ * License as published by the Free Software Foundation; either
+ * version 2.1 of the License, or (at your option) any later version.
+ *
+ * This library is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the GNU
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public
+ * License along with this library; if not, see <https://www.gnu.org/licenses/>.
+ */
+import { test } from 'uvu';
+import * as assert from 'uvu/assert';
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import { performInstallation, planInstall } from '../install-phase';
+import { planUninstall } from '../uninstall-phase';
+import { codeFrame, findParseProblems, SettingsParseError } from '../settings-parse';
+import { silentReporter } from '../reporter';
+import { Hooks } from '../types';
+
+/**
+ * SETTINGS PARSE ERROR TESTS
+ *
+ * These tests verify that we never edit a settings file that doesn't parse:
+ * - Planners stop with a SettingsParseError naming the line and column
+ * - The error shows a code frame pointing at the offending text
+ * - --force turns the problem into a warning and edits anyway
+ * - Trailing commas and empty files are not problems
+ */
+
+const HOOKS: Hooks = {
+  Stop: [{ hooks: [{ type: 'command', command: 'notify-done' }] }]
+};
+
+// Missing comma after the permissions object
+const BROKEN = `{
+  // mine
+  "permissions": {
+    "allow": ["Bash"]
+  }
+  "hooks": {}
+}
+`;
+
+test('parse errors - planners refuse broken settings', () => {
+  for (const plan of [() => planInstall(BROKEN, HOOKS), () => planUninstall(BROKEN, HOOKS)]) {
+    try {
+      plan();
+      assert.unreachable('should have thrown');
+    } catch (error) {
+      assert.instance(error, SettingsParseError);
+      const { problems } = error as SettingsParseError;
+      assert.equal(problems[0], { code: 'CommaExpected', offset: 59, length: 7, line: 6, column: 3 });
+      assert.match((error as Error).message, 'CommaExpected at line 6, column 3');
+      assert.match((error as Error).message, '--force');
+    }
+  }
+});
+
+test('parse errors - code frame', () => {
+  assert.is(codeFrame(BROKEN, 59, 7), [
+    '  4 |     "allow": ["Bash"]',
+    '  5 |   }',
+    '> 6 |   "hooks": {}',
+    '    |   ^^^^^^^',
+    '  7 | }'
+  ].join('\n'));
+});
+
+test('parse errors - force edits anyway, with a warning', () => {
+  const plan = planInstall(BROKEN, HOOKS, { force: true });
+
+  assert.is(plan.addedCount, 1);
+  assert.is(plan.warnings.length, 1);
+  assert.match(plan.warnings[0], 'CommaExpected at line 6, column 3');
+});
+
+test('parse errors - trailing commas and empty files are fine', () => {
+  assert.equal(findParseProblems('{ "hooks": { "Stop": [], }, }'), []);
+  assert.equal(findParseProblems(''), []);
+  assert.equal(findParseProblems('{ "hooks": ').map(problem => problem.code), ['ValueExpected', 'CloseBraceExpected']);
+});
+
+test('parse errors - install leaves the broken file alone', async () => {
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'hooks-parse-error-test-'));
+  try {
+    const settingsPath = path.join(tempDir, '.claude', 'settings.local.json');
+    await fs.mkdir(path.dirname(settingsPath));
+    await fs.writeFile(settingsPath, BROKEN);
+
+    let thrown: unknown;
+    try {
+      await performInstallation(tempDir, false, HOOKS, 'settings.local.json', { yes: true, reporter: silentReporter });
+    } catch (error) {
+      thrown = error;
+    }
+
+    assert.instance(thrown, SettingsParseError);
+    assert.is((thrown as SettingsParseError).filePath, settingsPath);
+    assert.is(await fs.readFile(settingsPath, 'utf-8'), BROKEN);
+    assert.equal(await fs.readdir(path.dirname(settingsPath)), ['settings.local.json']);
+  } finally {
+    await fs.rm(tempDir, { recursive: true });
+  }
+});
+
+test.run();
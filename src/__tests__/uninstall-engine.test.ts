@@ -0,0 +1,149 @@
+/*
+ * CLI tool for managing Claude Code hooks
+ * Copyright (C) 2025  Peoples Grocers LLC
+ *
+ * This library is free software; you can redistribute it and/or
+ * modify it under the terms of the GNU Lesser General Public
+ * License as published by the Free Software Foundation; either
+ * version 2.1 of the License, or (at your option) any later version.
+ *
+ * This library is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the GNU
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public
+ * License along with this library; if not, see <https://www.gnu.org/licenses/>.
+ */
+import { test } from 'uvu';
+import * as assert from 'uvu/assert';
+import { promises as fs, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import os from 'os';
+import { performInstallation } from '../install-phase';
+import { performUninstallation } from '../uninstall-phase';
+import { withSettingsLock } from '../atomic-write';
+import { readLedger } from '../ledger';
+import { ReporterEvent, silentReporter } from '../reporter';
+import { Hooks } from '../types';
+
+/**
+ * UNINSTALL ENGINE TESTS
+ *
+ * These tests verify that every uninstall strategy goes through the same engine:
+ * - Removing by binary also forgets the ledger entries it removed
+ * - Removing by ledger leaves matchers the ledger doesn't know about
+ * - A .claude directory in a parent folder is confirmed first, and --no-parent cancels
+ * - A file changed while the prompt was open is planned and shown again, not overwritten
+ * - An install honours the lock an uninstall holds
+ */
+
+const HOOKS: Hooks = {
+  Stop: [{ hooks: [{ type: 'command', command: 'my-tool Stop' }] }]
+};
+
+const DEFINITION = { id: 'my-tool-hooks' };
+
+async function withInstalled(fn: (dir: string, settingsPath: string) => Promise<void>): Promise<void> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'hooks-uninstall-engine-test-'));
+  try {
+    await performInstallation(dir, true, HOOKS, 'settings.local.json', {
+      yes: true,
+      definition: DEFINITION,
+      reporter: silentReporter
+    });
+    await fn(dir, path.join(dir, '.claude', 'settings.local.json'));
+  } finally {
+    await fs.rm(dir, { recursive: true });
+  }
+}
+
+test('uninstall engine - binary strategy forgets what it removed', async () => {
+  await withInstalled(async (dir, settingsPath) => {
+    const result = await performUninstallation(dir, { by: 'binary', binaryName: 'my-tool' }, {
+      yes: true,
+      reporter: silentReporter
+    });
+
+    assert.ok(result.success);
+    assert.is(result.removedCount, 1);
+    assert.equal(JSON.parse(await fs.readFile(settingsPath, 'utf-8')), {});
+    assert.equal(await readLedger(path.join(dir, '.claude')), { version: 1, entries: [] });
+  });
+});
+
+test('uninstall engine - ledger strategy keeps matchers it did not record', async () => {
+  await withInstalled(async (dir, settingsPath) => {
+    const settings = JSON.parse(await fs.readFile(settingsPath, 'utf-8'));
+    settings.hooks.Stop.push({ hooks: [{ type: 'command', command: 'my-tool Stop' }] });
+    await fs.writeFile(settingsPath, JSON.stringify(settings, null, 2));
+
+    const result = await performUninstallation(dir, { by: 'ledger' }, {
+      definition: DEFINITION,
+      yes: true,
+      reporter: silentReporter
+    });
+
+    assert.is(result.removedCount, 1);
+    assert.equal(JSON.parse(await fs.readFile(settingsPath, 'utf-8')).hooks.Stop.length, 1);
+  });
+});
+
+test('uninstall engine - parent directory is confirmed, and --no-parent cancels', async () => {
+  await withInstalled(async (dir, settingsPath) => {
+    const before = await fs.readFile(settingsPath, 'utf-8');
+    const events: ReporterEvent[] = [];
+    const result = await performUninstallation(dir, { by: 'definition', hooks: HOOKS }, {
+      inParentDirectory: true,
+      parent: false,
+      reporter: { report: event => events.push(event) }
+    });
+
+    assert.is(result.success, false);
+    assert.is(result.cancelled, true);
+    assert.equal(events.map(event => event.type), ['parent-uninstall-warning', 'cancelled']);
+    assert.is(await fs.readFile(settingsPath, 'utf-8'), before);
+  });
+});
+
+test('uninstall engine - a change made during the prompt is kept', async () => {
+  await withInstalled(async (dir, settingsPath) => {
+    const events: ReporterEvent[] = [];
+    const result = await performUninstallation(dir, { by: 'definition', hooks: HOOKS }, {
+      yes: true,
+      reporter: {
+        report: event => {
+          events.push(event);
+          // Someone saves the file while the first diff is on screen
+          if (event.type === 'diff' && events.filter(seen => seen.type === 'diff').length === 1) {
+            const settings = JSON.parse(readFileSync(settingsPath, 'utf-8'));
+            writeFileSync(settingsPath, JSON.stringify({ ...settings, model: 'sonnet' }, null, 2));
+          }
+        }
+      }
+    });
+
+    assert.ok(result.success);
+    assert.is(result.removedCount, 1);
+    assert.equal(events.filter(event => event.type === 'diff').length, 2, 'the new plan is shown');
+    assert.ok(events.some(event => event.type === 'settings-changed'));
+    assert.equal(JSON.parse(await fs.readFile(settingsPath, 'utf-8')), { model: 'sonnet' });
+    assert.not.ok((await fs.readdir(path.dirname(settingsPath))).some(name => name.endsWith('.lock')));
+  });
+});
+
+test('uninstall engine - an install honours the lock an uninstall holds', async () => {
+  await withInstalled(async (dir, settingsPath) => {
+    const before = await fs.readFile(settingsPath, 'utf-8');
+    const other: Hooks = { Stop: [{ hooks: [{ type: 'command', command: 'other-tool Stop' }] }] };
+
+    const result = await withSettingsLock(settingsPath, () =>
+      performInstallation(dir, false, other, 'settings.local.json', { yes: true, reporter: silentReporter }));
+
+    assert.is(result.success, false);
+    assert.match(result.error ?? '', /Another cchooks process/);
+    assert.is(await fs.readFile(settingsPath, 'utf-8'), before);
+  });
+});
+
+test.run();
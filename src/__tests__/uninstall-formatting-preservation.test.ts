@@ -37,6 +37,7 @@ import { Hooks } from '../types';
  * - Other events remain in the hooks object  
  * - Other configuration outside hooks remains untouched
  * - Weird formatting/spacing is preserved where possible
+ * - A user's one-line matcher next to ours keeps its line and comment
  * - Malformed content is left unchanged
  */
 
@@ -444,4 +445,31 @@ test('formatting preservation - malformed hook structure left unchanged', async
     'malformed hook structure gracefully handled');
 });
 
+test('formatting preservation - one-line user matcher beside ours keeps its line', async () => {
+  const beforeContent = await fs.readFile(path.join(fixturesDir, 'one-line-neighbour-before.json'), 'utf-8');
+  const expectedAfterContent = await fs.readFile(path.join(fixturesDir, 'one-line-neighbour-after.json'), 'utf-8');
+  
+  const hooksToRemove: Hooks = {
+    PreToolUse: [
+      { matcher: "Edit", hooks: [{ type: "command", command: "happy-coder-hooks validate" }] }
+    ],
+    Stop: [
+      { matcher: "*", hooks: [{ type: "command", command: "happy-coder-hooks cleanup" }] }
+    ]
+  };
+  
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'hooks-format-test-'));
+  const tempFile = path.join(tempDir, 'settings.local.json');
+  
+  try {
+    await fs.writeFile(tempFile, beforeContent);
+    const result = await removeHooksWithDefinition(tempFile, hooksToRemove);
+    
+    // Compared as text: the user's line and comment must survive as written
+    assert.is(result.newContent, expectedAfterContent);
+  } finally {
+    await fs.rm(tempDir, { recursive: true });
+  }
+});
+
 test.run();
\ No newline at end of file
@@ -294,4 +294,55 @@ test('recursive cleanup - removing one matcher when multiple exist should not cl
     'partial removal should not trigger cleanup');
 });
 
+test('recursive cleanup - our entries emptying a shared matcher clean up the event', async () => {
+  // The user's matcher holds two of our entries: taking both out empties it
+  const beforeContent = `{
+    "hooks": {
+      "Stop": [
+        {
+          "hooks": [
+            { "type": "command", "command": "happy-coder-hooks Stop" },
+            { "type": "command", "command": "happy-coder-hooks Notify" }
+          ]
+        }
+      ],
+      "PreToolUse": [
+        {
+          "matcher": "Bash",
+          "hooks": [
+            { "type": "command", "command": "happy-coder-hooks PreToolUse" },
+            { "type": "command", "command": "my-linter" }
+          ]
+        }
+      ]
+    }
+  }`;
+
+  const hooksToRemove: Hooks = {
+    Stop: [
+      { hooks: [{ type: "command", command: "happy-coder-hooks Stop" }] },
+      { hooks: [{ type: "command", command: "happy-coder-hooks Notify" }] }
+    ],
+    PreToolUse: [
+      { matcher: "Bash", hooks: [{ type: "command", command: "happy-coder-hooks PreToolUse" }] }
+    ]
+  };
+
+  const expectedAfterContent = `{
+    "hooks": {
+      "PreToolUse": [
+        {
+          "matcher": "Bash",
+          "hooks": [
+            { "type": "command", "command": "my-linter" }
+          ]
+        }
+      ]
+    }
+  }`;
+
+  await testRecursiveCleanup(beforeContent, hooksToRemove, expectedAfterContent,
+    'our entries emptying a shared matcher clean up the event');
+});
+
 test.run();
\ No newline at end of file
@@ -0,0 +1,145 @@
+/*
+ * CLI tool for managing Claude Code hooks
+ * Copyright (C) 2025  Peoples Grocers LLC
+ *
+ * This library is free software; you can redistribute it and/or
+ * modify it under the terms of the GNU Lesser General Public
+ * License as published by the Free Software Foundation; either
+ * version 2.1 of the License, or (at your option) any later version.
+ *
+ * This library is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the GNU
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public
+ * License along with this library; if not, see <https://www.gnu.org/licenses/>.
+ */
+import { test } from 'uvu';
+import * as assert from 'uvu/assert';
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import { uninstallHooks } from '../commands/uninstall';
+import { DecisionRequiredError } from '../decision-phase';
+import { findSettingsFiles } from '../discovery-phase';
+import { performInstallation } from '../install-phase';
+import { scanSettingsFiles } from '../uninstall-phase';
+import { ReporterEvent, silentReporter } from '../reporter';
+import { Hooks } from '../types';
+
+/**
+ * UNINSTALL SCOPES TESTS
+ *
+ * These tests verify that uninstall without --scope looks through every
+ * settings file that applies, not just settings.local.json:
+ * - Matches are found in user, project and local files, with line numbers
+ * - Every file with matches is cleaned when the user takes them all
+ * - A dry run reports each file's diff and writes nothing
+ * - Several files and no terminal stop with a decision instead of guessing
+ * - --target keeps to that project's files
+ */
+
+const HOOKS: Hooks = {
+  Stop: [{ hooks: [{ type: 'command', command: 'my-tool Stop' }] }]
+};
+
+const DEFINITION = { id: 'my-tool-hooks' };
+
+const OTHER = `{
+  "hooks": {
+    "Stop": [{ "hooks": [{ "type": "command", "command": "say done" }] }]
+  }
+}
+`;
+
+async function withInstalledEverywhere(fn: (home: string, project: string) => Promise<void>): Promise<void> {
+  const home = await fs.mkdtemp(path.join(os.tmpdir(), 'hooks-uninstall-scopes-test-'));
+  const project = path.join(home, 'src', 'project');
+  const originalHome = process.env.HOME;
+  const originalCwd = process.cwd();
+  process.env.HOME = home;
+  try {
+    await fs.mkdir(path.join(project, '.claude'), { recursive: true });
+    await fs.writeFile(path.join(project, '.claude', 'settings.local.json'), OTHER);
+
+    const options = { yes: true, definition: DEFINITION, reporter: silentReporter };
+    await performInstallation(home, true, HOOKS, 'settings.json', options);
+    await performInstallation(project, false, HOOKS, 'settings.json', options);
+
+    process.chdir(project);
+    await fn(home, project);
+  } finally {
+    process.chdir(originalCwd);
+    process.env.HOME = originalHome;
+    await fs.rm(home, { recursive: true });
+  }
+}
+
+test('uninstall scopes - finds matches in every settings file with their lines', async () => {
+  await withInstalledEverywhere(async (home, project) => {
+    const found = await scanSettingsFiles(await findSettingsFiles(project), { by: 'definition', hooks: HOOKS }, { definition: DEFINITION });
+
+    assert.equal(found.map(file => file.location.path), [
+      path.join(home, '.claude', 'settings.json'),
+      path.join(project, '.claude', 'settings.json')
+    ]);
+    assert.equal(found.map(file => file.location.scope), ['user', 'project']);
+    assert.equal(found[0].matches, [{ jsonPath: ['hooks', 'Stop', 0], line: 4, modified: false, commands: ['my-tool Stop'] }]);
+  });
+});
+
+test('uninstall scopes - yes cleans every file that has matches', async () => {
+  await withInstalledEverywhere(async (home, project) => {
+    const events: ReporterEvent[] = [];
+    const result = await uninstallHooks(HOOKS, {
+      yes: true,
+      definition: DEFINITION,
+      binaryName: DEFINITION.id,
+      reporter: { report: event => events.push(event) }
+    });
+
+    assert.ok(result.success);
+    assert.is(result.files?.length, 2);
+    assert.equal(events.filter(event => event.type === 'uninstall-matches').length, 1);
+    assert.is(await fs.readFile(path.join(project, '.claude', 'settings.local.json'), 'utf-8'), OTHER);
+    for (const settingsPath of [path.join(home, '.claude', 'settings.json'), path.join(project, '.claude', 'settings.json')]) {
+      assert.not.match(await fs.readFile(settingsPath, 'utf-8'), 'my-tool Stop');
+    }
+  });
+});
+
+test('uninstall scopes - dry run reports each file and writes nothing', async () => {
+  await withInstalledEverywhere(async (home) => {
+    const userSettings = path.join(home, '.claude', 'settings.json');
+    const before = await fs.readFile(userSettings, 'utf-8');
+    const result = await uninstallHooks(HOOKS, { dryRun: true, definition: DEFINITION, reporter: silentReporter });
+
+    assert.equal(result.files?.map(file => file.dryRun?.changed), [true, true]);
+    assert.is(await fs.readFile(userSettings, 'utf-8'), before);
+  });
+});
+
+test('uninstall scopes - several files without a terminal need a decision', async () => {
+  await withInstalledEverywhere(async () => {
+    try {
+      await uninstallHooks(HOOKS, { definition: DEFINITION, reporter: silentReporter });
+      assert.unreachable('should have asked which files to clean');
+    } catch (error) {
+      assert.instance(error, DecisionRequiredError);
+      assert.match((error as Error).message, '--scope');
+    }
+  });
+});
+
+test('uninstall scopes - target keeps to that project', async () => {
+  await withInstalledEverywhere(async (home, project) => {
+    const result = await uninstallHooks(HOOKS, { yes: true, target: project, definition: DEFINITION, reporter: silentReporter });
+
+    assert.is(result.files?.length, 1);
+    assert.match(await fs.readFile(path.join(home, '.claude', 'settings.json'), 'utf-8'), 'my-tool Stop');
+    assert.not.match(await fs.readFile(path.join(project, '.claude', 'settings.json'), 'utf-8'), 'my-tool Stop');
+  });
+});
+
+test.run();
@@ -0,0 +1,189 @@
+/*
+ * CLI tool for managing Claude Code hooks
+ * Copyright (C) 2025  Peoples Grocers LLC
+ *
+ * This library is free software; you can redistribute it and/or
+ * modify it under the terms of the GNU Lesser General Public
+ * License as published by the Free Software Foundation; either
+ * version 2.1 of the License, or (at your option) any later version.
+ *
+ * This library is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the GNU
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public
+ * License along with this library; if not, see <https://www.gnu.org/licenses/>.
+ */
+import { test } from 'uvu';
+import * as assert from 'uvu/assert';
+import { promises as fs, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import os from 'os';
+import * as jsonc from 'jsonc-parser';
+import { upgradeHooks } from '../commands/upgrade';
+import { DecisionRequiredError } from '../decision-phase';
+import { planUpgrade, performUpgrade } from '../upgrade-phase';
+import { readLedger } from '../ledger';
+import { ReporterEvent, silentReporter } from '../reporter';
+import { Hooks } from '../types';
+
+/**
+ * UPGRADE TESTS
+ *
+ * These tests verify that upgrading from one version of a definition to the
+ * next is a single, careful edit:
+ * - Matchers are changed in place, keeping their position and comments
+ * - Fields the user changed by hand keep the user's value
+ * - Matchers dropped from the new version are removed, new ones are added
+ * - Nothing is installed when the old version isn't there
+ * - The ledger ends up recording the new version
+ * - A file changed while the prompt was open is planned again, not overwritten
+ * - A .claude directory in a parent folder is confirmed first
+ */
+
+const V1: Hooks = {
+  PreToolUse: [{ matcher: '*', hooks: [{ type: 'command', command: 'my-tool PreToolUse', timeout: 10 }] }],
+  PostToolUse: [{ matcher: '*', hooks: [{ type: 'command', command: 'my-tool PostToolUse' }] }]
+};
+
+const V2: Hooks = {
+  PreToolUse: [{ matcher: '*', hooks: [{ type: 'command', command: 'my-tool pre-tool --json', timeout: 30 }] }],
+  Stop: [{ hooks: [{ type: 'command', command: 'my-tool stop' }] }]
+};
+
+const SETTINGS = `{
+  "hooks": {
+    "PreToolUse": [
+      { "matcher": "Bash", "hooks": [{ "type": "command", "command": "their-tool" }] },
+      // ours
+      { "matcher": "*", "hooks": [{ "type": "command", "command": "my-tool PreToolUse", "timeout": 10 }] }
+    ],
+    "PostToolUse": [
+      { "matcher": "*", "hooks": [{ "type": "command", "command": "my-tool PostToolUse" }] }
+    ]
+  }
+}`;
+
+test('upgrade - replaces in place, removes and adds', () => {
+  const plan = planUpgrade(SETTINGS, V1, V2);
+  const settings = jsonc.parse(plan.newContent);
+
+  assert.is(plan.replacedCount, 1);
+  assert.is(plan.removedCount, 1);
+  assert.is(plan.addedCount, 1);
+  assert.ok(plan.newContent.includes('// ours\n      { "matcher": "*", "hooks": [{ "type": "command", "command": "my-tool pre-tool --json", "timeout": 30 }] }'));
+  assert.equal(settings.hooks.PreToolUse[0].hooks[0].command, 'their-tool');
+  assert.is(settings.hooks.PostToolUse, undefined);
+  assert.equal(settings.hooks.Stop, V2.Stop);
+  assert.equal(plan.installed.map(({ path: matcherPath }) => matcherPath), [['hooks', 'PreToolUse', 1], ['hooks', 'Stop', 0]]);
+});
+
+test('upgrade - keeps fields the user changed', () => {
+  const plan = planUpgrade(SETTINGS.replace('"timeout": 10', '"timeout": 99'), V1, V2);
+  const hook = jsonc.parse(plan.newContent).hooks.PreToolUse[1].hooks[0];
+
+  assert.is(hook.command, 'my-tool pre-tool --json');
+  assert.is(hook.timeout, 99);
+});
+
+test('upgrade - nothing installed means nothing changes', () => {
+  const content = '{\n  "hooks": {}\n}';
+  const plan = planUpgrade(content, V1, V2);
+
+  assert.is(plan.newContent, content);
+  assert.equal(plan.edits, []);
+  assert.equal(plan.upgradedPaths, []);
+});
+
+test('upgrade - ledger records the new version', async () => {
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'hooks-upgrade-test-'));
+  try {
+    const settingsPath = path.join(tempDir, '.claude', 'settings.local.json');
+    await fs.mkdir(path.dirname(settingsPath));
+    await fs.writeFile(settingsPath, SETTINGS);
+
+    const result = await performUpgrade(tempDir, [{ version: '1.0.0', hooks: V1 }], V2, {
+      yes: true,
+      definition: { id: 'my-tool-hooks', version: '2.0.0' },
+      reporter: silentReporter
+    });
+
+    assert.ok(result.success);
+    assert.is(await fs.readFile(settingsPath, 'utf-8'), planUpgrade(SETTINGS, V1, V2).newContent);
+
+    const ledger = await readLedger(path.join(tempDir, '.claude'));
+    assert.is(ledger.entries.length, 2);
+    assert.ok(ledger.entries.every(entry => entry.definition.version === '2.0.0'));
+  } finally {
+    await fs.rm(tempDir, { recursive: true });
+  }
+});
+
+test('upgrade - a change made during the prompt is kept', async () => {
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'hooks-upgrade-test-'));
+  try {
+    const settingsPath = path.join(tempDir, '.claude', 'settings.local.json');
+    await fs.mkdir(path.dirname(settingsPath));
+    await fs.writeFile(settingsPath, SETTINGS);
+
+    const events: ReporterEvent[] = [];
+    const result = await performUpgrade(tempDir, [{ version: '1.0.0', hooks: V1 }], V2, {
+      yes: true,
+      reporter: {
+        report: event => {
+          events.push(event);
+          // Someone saves the file while the first diff is on screen
+          if (event.type === 'diff' && events.filter(seen => seen.type === 'diff').length === 1) {
+            writeFileSync(settingsPath, readFileSync(settingsPath, 'utf-8').replace('"their-tool"', '"their-tool --fast"'));
+          }
+        }
+      }
+    });
+
+    assert.ok(result.success);
+    assert.ok(events.some(event => event.type === 'settings-changed'));
+    const settings = jsonc.parse(await fs.readFile(settingsPath, 'utf-8'));
+    assert.is(settings.hooks.PreToolUse[0].hooks[0].command, 'their-tool --fast');
+    assert.is(settings.hooks.PreToolUse[1].hooks[0].command, 'my-tool pre-tool --json');
+    assert.not.ok((await fs.readdir(path.dirname(settingsPath))).some(name => name.endsWith('.lock')));
+  } finally {
+    await fs.rm(tempDir, { recursive: true });
+  }
+});
+
+test('upgrade - a parent directory is confirmed first', async () => {
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'hooks-upgrade-test-'));
+  const originalHome = process.env.HOME;
+  const originalCwd = process.cwd();
+  try {
+    const settingsPath = path.join(tempDir, 'project', '.claude', 'settings.local.json');
+    const child = path.join(tempDir, 'project', 'packages', 'app');
+    await fs.mkdir(path.dirname(settingsPath), { recursive: true });
+    await fs.mkdir(child, { recursive: true });
+    await fs.writeFile(settingsPath, SETTINGS);
+    process.env.HOME = path.join(tempDir, 'home');
+    process.chdir(child);
+
+    // No TTY and no --yes: the parent question stops the run
+    const events: ReporterEvent[] = [];
+    try {
+      await upgradeHooks([{ hooks: V1 }], V2, { reporter: { report: event => { events.push(event); } } });
+      assert.unreachable('should have asked about the parent directory');
+    } catch (error) {
+      assert.instance(error, DecisionRequiredError);
+    }
+    assert.ok(events.some(event => event.type === 'parent-upgrade-warning'));
+    assert.is(await fs.readFile(settingsPath, 'utf-8'), SETTINGS);
+
+    const result = await upgradeHooks([{ hooks: V1 }], V2, { yes: true, reporter: silentReporter });
+    assert.ok(result.success);
+    assert.is(await fs.readFile(settingsPath, 'utf-8'), planUpgrade(SETTINGS, V1, V2).newContent);
+  } finally {
+    process.chdir(originalCwd);
+    process.env.HOME = originalHome;
+    await fs.rm(tempDir, { recursive: true });
+  }
+});
+
+test.run();
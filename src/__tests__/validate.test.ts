@@ -0,0 +1,123 @@
+/*
+ * CLI tool for managing Claude Code hooks
+ * Copyright (C) 2025  Peoples Grocers LLC
+ *
+ * This library is free software; you can redistribute it and/or
+ * modify it under the terms of the GNU Lesser General Public
+ * License as published by the Free Software Foundation; either
+ * version 2.1 of the License, or (at your option) any later version.
+ *
+ * This library is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the GNU
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public
+ * License along with this library; if not, see <https://www.gnu.org/licenses/>.
+ */
+import { test } from 'uvu';
+import * as assert from 'uvu/assert';
+import { assertValidHookDefinition, HookDefinitionError, validateHookDefinition } from '../validate';
+import { areMatchersEqual } from '../hook-entry';
+
+/**
+ * DEFINITION VALIDATION TESTS
+ *
+ * These tests verify that hook definitions are checked before they can
+ * reach a settings file:
+ * - Valid definitions pass untouched
+ * - Unknown events are caught, with a suggestion for typos
+ * - Matchers are only allowed where Claude filters by them, and a missing
+ *   one matches everything, the same as ""
+ * - Every problem is reported with its path
+ */
+
+test('validate - a correct definition has no problems', () => {
+  const problems = validateHookDefinition({
+    PreToolUse: [{ matcher: 'Bash|Edit', hooks: [{ type: 'command', command: 'audit' }] }],
+    Stop: [{ hooks: [{ type: 'command', command: 'notify-done' }] }],
+    Notification: [{ matcher: '', hooks: [{ type: 'command', command: 'notify' }] }]
+  });
+
+  assert.equal(problems, []);
+});
+
+test('validate - unknown events suggest the real name', () => {
+  const problems = validateHookDefinition({
+    PreTooluse: [{ matcher: '*', hooks: [{ type: 'command', command: 'audit' }] }],
+    Whenever: [{ hooks: [{ type: 'command', command: 'audit' }] }]
+  });
+
+  assert.equal(problems, [
+    { path: 'PreTooluse', message: 'unknown event (did you mean "PreToolUse"?)' },
+    { path: 'Whenever', message: 'unknown event' }
+  ]);
+});
+
+test('validate - matchers follow the event', () => {
+  const problems = validateHookDefinition({
+    PostToolUse: [{ hooks: [{ type: 'command', command: 'fmt' }] }],
+    PreToolUse: [{ matcher: '(', hooks: [{ type: 'command', command: 'audit' }] }],
+    Stop: [{ matcher: 'Bash', hooks: [{ type: 'command', command: 'notify-done' }] }]
+  });
+
+  assert.equal(problems.map(problem => problem.path), [
+    'PreToolUse[0].matcher',
+    'Stop[0].matcher'
+  ]);
+});
+
+test('validate - a missing matcher is the same as ""', () => {
+  const withoutMatcher = { hooks: [{ type: 'command' as const, command: 'fmt' }] };
+  const withEmptyMatcher = { matcher: '', hooks: [{ type: 'command', command: 'fmt' }] };
+
+  assert.equal(validateHookDefinition({ PostToolUse: [withoutMatcher] }), []);
+  assert.ok(areMatchersEqual(withoutMatcher, withEmptyMatcher));
+  assert.ok(areMatchersEqual({ ...withoutMatcher, matcher: '' }, { hooks: withEmptyMatcher.hooks }));
+  assert.not.ok(areMatchersEqual(withoutMatcher, { ...withEmptyMatcher, matcher: '*' }));
+});
+
+test('validate - hook fields are reported by path', () => {
+  const problems = validateHookDefinition({
+    PostToolUse: [{ matcher: '*', hooks: [{ type: 'command', command: 'fmt' }, { type: 'command' }] }],
+    Stop: [{}]
+  });
+
+  assert.equal(problems, [
+    { path: 'PostToolUse[0].hooks[1].command', message: 'required' },
+    { path: 'Stop[0].hooks', message: 'required' }
+  ]);
+});
+
+test('validate - prompt hooks, timeouts and extra fields', () => {
+  const problems = validateHookDefinition({
+    Stop: [{
+      hooks: [
+        { type: 'prompt', prompt: 'Is the task really done?', timeout: 30 },
+        { type: 'command', command: 'notify-done', statusMessage: 'Notifying' },
+        { type: 'prompt', timeout: -1 },
+        { type: 'agent', command: 'x' }
+      ]
+    }]
+  });
+
+  assert.equal(problems, [
+    { path: 'Stop[0].hooks[2].prompt', message: 'required' },
+    { path: 'Stop[0].hooks[2].timeout', message: 'expected a positive number of seconds' },
+    { path: 'Stop[0].hooks[3].type', message: 'expected "command" or "prompt"' }
+  ]);
+});
+
+test('validate - assert throws with every problem listed', () => {
+  try {
+    assertValidHookDefinition({ Stop: 'notify-done', PreToolUse: [] }, 'hooks.json');
+    assert.unreachable('should have thrown');
+  } catch (error) {
+    assert.instance(error, HookDefinitionError);
+    assert.is((error as HookDefinitionError).problems.length, 1);
+    assert.match((error as Error).message, 'The hook definition from hooks.json');
+    assert.match((error as Error).message, 'Stop: expected an array of matchers');
+  }
+});
+
+test.run();
@@ -0,0 +1,356 @@
+/*
+ * CLI tool for managing Claude Code hooks
+ * Copyright (C) 2025  Peoples Grocers LLC
+ *
+ * This library is free software; you can redistribute it and/or
+ * modify it under the terms of the GNU Lesser General Public
+ * License as published by the Free Software Foundation; either
+ * version 2.1 of the License, or (at your option) any later version.
+ *
+ * This library is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the GNU
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public
+ * License along with this library; if not, see <https://www.gnu.org/licenses/>.
+ */
+
+import fsSync, { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Backups live next to the settings files they protect, e.g.
+ * .claude/.cchooks-backups/settings.local.json.2025-06-01T12-00-00-000Z.bak
+ */
+export const BACKUP_DIRECTORY = '.cchooks-backups';
+
+// Older backups beyond this count are pruned after each write
+const MAX_BACKUPS_PER_FILE = 10;
+
+export interface WriteResult {
+  settingsPath: string;
+  backupPath?: string;
+}
+
+export interface WriteOptions {
+  /** Keep a copy of the previous content in the backup directory (default true) */
+  backup?: boolean;
+  /**
+   * The content the change was worked out against. If the file holds
+   * anything else by the time we write, nothing is written and a
+   * SettingsChangedError is thrown.
+   */
+  expected?: string;
+}
+
+/**
+ * Thrown when a settings file changed between reading it and writing it,
+ * e.g. Claude Code or an editor saved it while a prompt was open
+ */
+export class SettingsChangedError extends Error {
+  constructor(public readonly settingsPath: string) {
+    super(`${path.basename(settingsPath)} changed since I read it, so I didn't write it`);
+    this.name = 'SettingsChangedError';
+  }
+}
+
+// How many times a file may change under an open prompt before we give up
+export const MAX_REPLANS = 3;
+
+/**
+ * Thrown when another cchooks process holds the lock on a settings file
+ */
+export class SettingsLockedError extends Error {
+  constructor(public readonly settingsPath: string, public readonly lockPath: string, public readonly pid: number) {
+    super(
+      `Another cchooks process (pid ${pid}) is changing ${path.basename(settingsPath)}. ` +
+      `Try again once it's done, or delete ${lockPath} if it isn't running.`
+    );
+    this.name = 'SettingsLockedError';
+  }
+}
+
+/**
+ * Replace a settings file without ever leaving it half-written.
+ *
+ * The new content goes to a temp file in the same directory (so the rename
+ * can't cross filesystems), is fsynced, and is then renamed over the live
+ * file. Before that we copy the previous content into the backup directory.
+ * If anything goes wrong the temp file is removed and the original content
+ * is put back, so a crash or a full disk never costs the user their settings.
+ */
+export async function writeSettingsFile(
+  settingsPath: string,
+  content: string,
+  options: WriteOptions = {}
+): Promise<WriteResult> {
+  const directory = path.dirname(settingsPath);
+  const fileName = path.basename(settingsPath);
+
+  let originalContent: string | undefined;
+  let originalMode: number | undefined;
+  try {
+    originalContent = await fs.readFile(settingsPath, 'utf-8');
+    originalMode = (await fs.stat(settingsPath)).mode & 0o777;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error;
+    }
+  }
+
+  if (options.expected !== undefined && (originalContent ?? '') !== options.expected) {
+    throw new SettingsChangedError(settingsPath);
+  }
+
+  const backupPath = originalContent !== undefined && options.backup !== false
+    ? await backupSettingsFile(settingsPath, originalContent)
+    : undefined;
+
+  const tempPath = path.join(directory, `.${fileName}.${process.pid}.${Date.now()}.tmp`);
+
+  try {
+    const handle = await fs.open(tempPath, 'wx', originalMode ?? 0o644);
+    try {
+      await handle.writeFile(content, 'utf-8');
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+
+    await fs.rename(tempPath, settingsPath);
+    await syncDirectory(directory);
+
+    // Read it back so a filesystem that lied about the write doesn't go unnoticed
+    const written = await fs.readFile(settingsPath, 'utf-8');
+    if (written !== content) {
+      throw new Error(`${fileName} did not contain what I wrote after saving it`);
+    }
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    await restoreOriginal(settingsPath, originalContent);
+    throw error;
+  }
+
+  return { settingsPath, backupPath };
+}
+
+/**
+ * Run fn while holding an advisory lock on a settings file, so two cchooks
+ * processes never plan against the same text and overwrite each other.
+ *
+ * The lock is a file next to the settings file holding our pid, created
+ * exclusively. A lock left behind by a process that is gone is taken over;
+ * one held by a live process throws SettingsLockedError at once rather than
+ * waiting, since the holder may be sitting at a prompt. Other programs
+ * (editors, Claude Code) don't know about it: expected content catches them.
+ */
+export async function withSettingsLock<T>(settingsPath: string, fn: () => Promise<T>): Promise<T> {
+  const release = await lockSettingsFile(settingsPath);
+  try {
+    return await fn();
+  } finally {
+    await release();
+  }
+}
+
+/**
+ * Take the same lock as withSettingsLock and return the function that
+ * releases it, for callers holding several files' locks at once
+ */
+export async function lockSettingsFile(settingsPath: string): Promise<() => Promise<void>> {
+  const lockPath = path.join(path.dirname(settingsPath), `.${path.basename(settingsPath)}.lock`);
+  await acquireLock(settingsPath, lockPath);
+
+  // A Ctrl-C at a prompt exits without unwinding, so clean up on exit too
+  const releaseOnExit = () => {
+    try {
+      fsSync.unlinkSync(lockPath);
+    } catch {
+      // Already gone
+    }
+  };
+  process.once('exit', releaseOnExit);
+
+  return async () => {
+    process.removeListener('exit', releaseOnExit);
+    await fs.rm(lockPath, { force: true });
+  };
+}
+
+// Keeps our own temporary lock files apart, even for two locks taken at once
+let lockFileCounter = 0;
+
+async function acquireLock(settingsPath: string, lockPath: string): Promise<void> {
+  let holder = '';
+  for (let attempt = 0; attempt < 2; attempt++) {
+    if (await createLock(lockPath)) {
+      return;
+    }
+
+    holder = await fs.readFile(lockPath, 'utf-8').catch(() => '');
+    const pid = Number.parseInt(holder, 10);
+    if (Number.isInteger(pid) && isRunning(pid)) {
+      throw new SettingsLockedError(settingsPath, lockPath, pid);
+    }
+
+    // Left behind by a process that didn't finish: take it over
+    const takenBy = await moveStaleLock(lockPath, holder);
+    if (takenBy !== undefined) {
+      throw new SettingsLockedError(settingsPath, lockPath, Number.parseInt(takenBy, 10));
+    }
+  }
+
+  // Someone else took it over first
+  throw new SettingsLockedError(settingsPath, lockPath, Number.parseInt(holder, 10));
+}
+
+/**
+ * Create the lock file holding our pid, or return false if it exists. The
+ * pid is written to a file of our own first and then linked into place, so
+ * nobody ever reads a lock that exists but is still empty.
+ */
+async function createLock(lockPath: string): Promise<boolean> {
+  const ownPath = `${lockPath}.${process.pid}.${++lockFileCounter}.tmp`;
+  await fs.writeFile(ownPath, `${process.pid}\n`);
+  try {
+    await fs.link(ownPath, lockPath);
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+      throw error;
+    }
+    return false;
+  } finally {
+    await fs.rm(ownPath, { force: true });
+  }
+}
+
+/**
+ * Move a dead holder's lock out of the way. A rename is atomic, so when two
+ * processes take over at once only one moves the dead lock and the other
+ * finds it gone. If what we moved turns out to be a lock someone took over
+ * in the meantime, it goes back and its holder is returned.
+ */
+async function moveStaleLock(lockPath: string, staleHolder: string): Promise<string | undefined> {
+  const movedPath = `${lockPath}.${process.pid}.${++lockFileCounter}.stale`;
+  try {
+    await fs.rename(lockPath, movedPath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+
+  try {
+    const moved = await fs.readFile(movedPath, 'utf-8').catch(() => staleHolder);
+    if (moved === staleHolder) {
+      return undefined;
+    }
+    await fs.link(movedPath, lockPath).catch(() => undefined);
+    return moved;
+  } finally {
+    await fs.rm(movedPath, { force: true });
+  }
+}
+
+/**
+ * Whether a process is alive. Signal 0 only checks; EPERM means it exists
+ * but belongs to someone else.
+ */
+function isRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * Copy the current content of a settings file into the backup directory
+ * under a timestamped name. Returns the backup path.
+ */
+async function backupSettingsFile(settingsPath: string, content: string): Promise<string> {
+  const backupDir = path.join(path.dirname(settingsPath), BACKUP_DIRECTORY);
+  const fileName = path.basename(settingsPath);
+
+  await ensureIgnoredDirectory(backupDir);
+
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const backupPath = path.join(backupDir, `${fileName}.${timestamp}.bak`);
+  await fs.writeFile(backupPath, content, 'utf-8');
+
+  await pruneBackups(backupDir, fileName);
+
+  return backupPath;
+}
+
+/**
+ * Create one of our directories inside .claude, with a .gitignore of its own
+ * that keeps everything in it out of version control without touching the
+ * user's .gitignore
+ */
+export async function ensureIgnoredDirectory(directory: string): Promise<void> {
+  await fs.mkdir(directory, { recursive: true });
+
+  try {
+    await fs.writeFile(path.join(directory, '.gitignore'), '*\n', { flag: 'wx' });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Remove the oldest backups of a file once there are more than we keep.
+ * Timestamps sort lexically, so the names alone give us the order.
+ */
+async function pruneBackups(backupDir: string, fileName: string): Promise<void> {
+  const entries = await fs.readdir(backupDir);
+  const backups = entries
+    .filter(entry => entry.startsWith(`${fileName}.`) && entry.endsWith('.bak'))
+    .sort();
+
+  for (const stale of backups.slice(0, Math.max(0, backups.length - MAX_BACKUPS_PER_FILE))) {
+    await fs.rm(path.join(backupDir, stale), { force: true });
+  }
+}
+
+/**
+ * Put the settings file back the way it was before a failed write.
+ * Best effort: the original error is the one worth reporting.
+ */
+async function restoreOriginal(settingsPath: string, originalContent: string | undefined): Promise<void> {
+  try {
+    if (originalContent === undefined) {
+      await fs.rm(settingsPath, { force: true });
+      return;
+    }
+
+    const current = await fs.readFile(settingsPath, 'utf-8').catch(() => undefined);
+    if (current !== originalContent) {
+      await fs.writeFile(settingsPath, originalContent, 'utf-8');
+    }
+  } catch {
+    // The backup directory still has a copy
+  }
+}
+
+/**
+ * fsync a directory so the rename itself survives a crash.
+ * Not every platform lets you open a directory (Windows doesn't), which is fine.
+ */
+async function syncDirectory(directory: string): Promise<void> {
+  let handle: fs.FileHandle | undefined;
+  try {
+    handle = await fs.open(directory, 'r');
+    await handle.sync();
+  } catch {
+    // Directory fsync is an extra guarantee, not a requirement
+  } finally {
+    await handle?.close();
+  }
+}
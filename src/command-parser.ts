@@ -0,0 +1,322 @@
+/*
+ * CLI tool for managing Claude Code hooks
+ * Copyright (C) 2025  Peoples Grocers LLC
+ *
+ * This library is free software; you can redistribute it and/or
+ * modify it under the terms of the GNU Lesser General Public
+ * License as published by the Free Software Foundation; either
+ * version 2.1 of the License, or (at your option) any later version.
+ *
+ * This library is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the GNU
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public
+ * License along with this library; if not, see <https://www.gnu.org/licenses/>.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * One simple command in a hook's shell command line, e.g. the
+ * `my-tool Stop` in `cd "$DIR" && my-tool Stop`
+ */
+export interface ParsedCommand {
+  /** The program the shell starts, as written, after VAR=value and wrappers like env */
+  executable: string;
+  /** The package runner that fetches the executable, e.g. npx; the executable is then a package */
+  runner?: string;
+  args: string[];
+}
+
+// Wrappers that run the rest of the line as a command, with the options
+// that take a value of their own
+const COMMAND_WRAPPERS: Record<string, Set<string>> = {
+  command: new Set(),
+  env: new Set(['-u', '--unset', '-C', '--chdir']),
+  exec: new Set(['-a']),
+  nice: new Set(['-n', '--adjustment']),
+  nohup: new Set(),
+  sudo: new Set(['-u', '--user', '-g', '--group', '-h', '--host', '-C', '--close-from']),
+  time: new Set(['-o', '--output', '-f', '--format'])
+};
+
+// Package runners, which fetch a package and run its binary
+const PACKAGE_RUNNERS: Record<string, Set<string>> = {
+  npx: new Set(['-p', '--package', '-c', '--call']),
+  bunx: new Set(['-p', '--package']),
+  pnpx: new Set(['-p', '--package', '-c']),
+  'npm exec': new Set(['-p', '--package', '-c', '--call', '-w', '--workspace']),
+  'pnpm dlx': new Set(['-p', '--package', '-c']),
+  'pnpm exec': new Set(['-c']),
+  'yarn dlx': new Set(['-p', '--package']),
+  'yarn exec': new Set(),
+  'bun x': new Set(['-p', '--package'])
+};
+
+// Shells, which run a command line given with -c, with the options that
+// take a value of their own
+const SHELLS = new Set(['sh', 'bash', 'zsh', 'dash', 'ksh']);
+const SHELL_OPTIONS_WITH_VALUE = new Set(['-o', '+o', '-O', '+O', '--rcfile', '--init-file']);
+
+/**
+ * Split a shell command line into simple commands and their words, with
+ * quotes and backslashes removed the way the shell would. Variables and
+ * substitutions are kept as written. Redirections and comments are dropped.
+ */
+export function tokenizeCommand(command: string): string[][] {
+  const commands: string[][] = [];
+  let words: string[] = [];
+  let word = '';
+  let inWord = false;
+  let skipNextWord = false;
+  
+  const endWord = () => {
+    if (inWord) {
+      if (skipNextWord) {
+        skipNextWord = false;
+      } else {
+        words.push(word);
+      }
+    }
+    word = '';
+    inWord = false;
+  };
+  const endCommand = () => {
+    endWord();
+    if (words.length > 0) {
+      commands.push(words);
+    }
+    words = [];
+  };
+  
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+    
+    if (char === ' ' || char === '\t') {
+      endWord();
+    } else if (char === '\n' || char === ';' || char === '&' || char === '|' || char === '(' || char === ')') {
+      endCommand();
+    } else if (char === '<' || char === '>') {
+      // A redirection, maybe with a file descriptor (2>) and a target (2>&1, >file)
+      if (/^\d+$/.test(word)) {
+        word = '';
+        inWord = false;
+      }
+      endWord();
+      while (command[i + 1] === '>' || command[i + 1] === '&') i++;
+      if (/\d/.test(command[i + 1] ?? '') && command[i] === '&') {
+        while (/\d/.test(command[i + 1] ?? '')) i++;
+      } else {
+        skipNextWord = true;
+      }
+    } else if (char === '#' && !inWord) {
+      while (i + 1 < command.length && command[i + 1] !== '\n') i++;
+    } else if (char === "'") {
+      const end = command.indexOf("'", i + 1);
+      const stop = end === -1 ? command.length : end;
+      word += command.slice(i + 1, stop);
+      inWord = true;
+      i = stop;
+    } else if (char === '"') {
+      inWord = true;
+      for (i++; i < command.length && command[i] !== '"'; i++) {
+        if (command[i] === '\\' && '"\\$`'.includes(command[i + 1] ?? '')) {
+          i++;
+        }
+        word += command[i];
+      }
+    } else if (char === '\\') {
+      // A backslash before a line break joins the lines
+      if (command[i + 1] !== '\n') {
+        word += command[i + 1] ?? '';
+        inWord = true;
+      }
+      i++;
+    } else if (char === '$' && command[i + 1] === '(') {
+      // Keep a command substitution whole, as written
+      let depth = 0;
+      const start = i;
+      for (i++; i < command.length; i++) {
+        if (command[i] === '(') depth++;
+        if (command[i] === ')' && --depth === 0) break;
+      }
+      word += command.slice(start, i + 1);
+      inWord = true;
+    } else {
+      word += char;
+      inWord = true;
+    }
+  }
+  
+  endCommand();
+  return commands;
+}
+
+/**
+ * Find the program each simple command in a shell command line runs,
+ * looking through VAR=value prefixes, wrappers like env and sudo, package
+ * runners like npx, and the command line a shell runs with -c
+ */
+export function parseCommand(command: string): ParsedCommand[] {
+  return tokenizeCommand(command).flatMap(parseWords);
+}
+
+/**
+ * The name a program goes by: the file name of a path, and the package
+ * name without a version for a runner's package (my-tool@2 is my-tool)
+ */
+export function programName(parsed: ParsedCommand): string {
+  const executable = parsed.runner
+    ? parsed.executable.replace(/^(@?[^@]+)@.*$/, '$1')
+    : parsed.executable;
+  return path.posix.basename(executable.replace(/\\/g, '/'));
+}
+
+/**
+ * Whether a shell command line runs a program, by its exact name or path.
+ * `my-tool` matches `/usr/local/bin/my-tool run` and `npx my-tool@latest`,
+ * but not `my-tool-helper` or `echo my-tool`.
+ */
+export function commandRunsProgram(command: string, binaryName: string): boolean {
+  return parseCommand(command).some(parsed =>
+    parsed.executable === binaryName || programName(parsed) === binaryName);
+}
+
+/**
+ * Look a program up on PATH the way the shell would, returning the file it
+ * finds. Synchronous, since the diff tool is picked from inside a reporter.
+ */
+export function findOnPath(program: string): string | undefined {
+  const directories = (process.env.PATH ?? '').split(path.delimiter).filter(Boolean);
+  const extensions = process.platform === 'win32'
+    ? (process.env.PATHEXT ?? '.EXE;.CMD;.BAT').split(';').concat([''])
+    : [''];
+  
+  for (const directory of directories) {
+    for (const extension of extensions) {
+      const candidate = path.join(directory, program + extension);
+      try {
+        fs.accessSync(candidate, fs.constants.X_OK);
+        if (fs.statSync(candidate).isFile()) {
+          return candidate;
+        }
+      } catch {
+        // Not in this directory
+      }
+    }
+  }
+  
+  return undefined;
+}
+
+function parseWords(words: string[]): ParsedCommand[] {
+  let index = 0;
+  
+  while (index < words.length) {
+    // VAR=value prefixes only set the environment
+    if (/^[A-Za-z_][A-Za-z0-9_]*=/.test(words[index])) {
+      index++;
+      continue;
+    }
+    
+    const wrapper = COMMAND_WRAPPERS[words[index]];
+    if (wrapper) {
+      index = skipOptions(words, index + 1, wrapper);
+      continue;
+    }
+    
+    const twoWords = `${words[index]} ${words[index + 1]}`;
+    const runner = PACKAGE_RUNNERS[twoWords] ? twoWords : PACKAGE_RUNNERS[words[index]] ? words[index] : undefined;
+    if (runner) {
+      const parsed = parseRunner(words, index + runner.split(' ').length, runner);
+      return parsed ? [parsed] : [];
+    }
+    
+    if (SHELLS.has(path.posix.basename(words[index]))) {
+      const inner = shellCommandLine(words, index + 1);
+      if (inner !== undefined) {
+        return parseCommand(inner);
+      }
+    }
+    
+    return [{ executable: words[index], args: words.slice(index + 1) }];
+  }
+  
+  return [];
+}
+
+/**
+ * The command line a shell runs with -c, which can be combined with other
+ * flags (`bash -lc 'cmd'`). Undefined when the shell runs a script instead.
+ */
+function shellCommandLine(words: string[], start: number): string | undefined {
+  let runsCommandLine = false;
+  let index = start;
+  
+  while (index < words.length && /^[-+]./.test(words[index])) {
+    const word = words[index];
+    if (word === '--') {
+      index++;
+      break;
+    }
+    if (SHELL_OPTIONS_WITH_VALUE.has(word)) {
+      index += 2;
+      continue;
+    }
+    if (/^-[^-]*c/.test(word)) {
+      runsCommandLine = true;
+    }
+    index++;
+  }
+  
+  return runsCommandLine ? words[index] ?? '' : undefined;
+}
+
+/**
+ * What a package runner runs: `-c 'cmd'` runs a shell command, and otherwise
+ * the first word is the package (or, after `-p pkg`, one of its binaries)
+ */
+function parseRunner(words: string[], start: number, runner: string): ParsedCommand | undefined {
+  const optionsWithValue = PACKAGE_RUNNERS[runner];
+  
+  for (let index = start; index < words.length; index++) {
+    const word = words[index];
+    
+    if (word === '--') {
+      return positional(words, index + 1, runner);
+    }
+    if (word === '-c' || word === '--call') {
+      return parseCommand(words[index + 1] ?? '')[0];
+    }
+    if (word.startsWith('--call=')) {
+      return parseCommand(word.slice('--call='.length))[0];
+    }
+    if (!word.startsWith('-')) {
+      return positional(words, index, runner);
+    }
+    if (optionsWithValue.has(word)) {
+      index++;
+    }
+  }
+  
+  return undefined;
+}
+
+function positional(words: string[], index: number, runner: string): ParsedCommand | undefined {
+  return index < words.length
+    ? { executable: words[index], runner, args: words.slice(index + 1) }
+    : undefined;
+}
+
+function skipOptions(words: string[], index: number, optionsWithValue: Set<string>): number {
+  while (index < words.length && words[index].startsWith('-')) {
+    if (words[index] === '--') {
+      return index + 1;
+    }
+    index += optionsWithValue.has(words[index]) ? 2 : 1;
+  }
+  return index;
+}
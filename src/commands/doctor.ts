@@ -0,0 +1,69 @@
+/*
+ * CLI tool for managing Claude Code hooks
+ * Copyright (C) 2025  Peoples Grocers LLC
+ *
+ * This library is free software; you can redistribute it and/or
+ * modify it under the terms of the GNU Lesser General Public
+ * License as published by the Free Software Foundation; either
+ * version 2.1 of the License, or (at your option) any later version.
+ *
+ * This library is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the GNU
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public
+ * License along with this library; if not, see <https://www.gnu.org/licenses/>.
+ */
+
+import chalk from '../vendor/chalk';
+
+import { diagnoseHooks, DoctorReport } from 'src/doctor-phase';
+import { displayPath } from 'src/scopes';
+
+/**
+ * Check the hook setup that applies to the current directory and explain
+ * anything that would stop hooks from running
+ */
+export async function runDoctor(): Promise<DoctorReport> {
+  console.log(`Checking your Claude hook setup...`);
+  
+  const report = await diagnoseHooks();
+  
+  for (const source of report.sources) {
+    const findings = report.findings.filter(finding => finding.sourcePath === source.path);
+    const sourcePath = displayPath(source.path);
+    
+    if (!source.exists && findings.length === 0) {
+      console.log(`  ${chalk.gray('-')} ${chalk.gray(sourcePath)} ${chalk.gray(`[${source.scope}] not there, that's fine`)}`);
+      continue;
+    }
+    
+    if (findings.length === 0) {
+      console.log(`  ${chalk.green('✓')} ${chalk.gray(sourcePath)} ${chalk.gray(`[${source.scope}]`)}`);
+      continue;
+    }
+    
+    console.log(`  ${chalk.red('✗')} ${sourcePath} ${chalk.gray(`[${source.scope}]`)}`);
+    for (const finding of findings) {
+      const marker = finding.severity === 'error' ? chalk.red('✗') : chalk.yellow('⚠');
+      const location = finding.line ? chalk.gray(` (line ${finding.line})`) : '';
+      console.log(`    ${marker} ${finding.message}${location}`);
+      console.log(chalk.gray(`      ${finding.suggestion}`));
+    }
+  }
+  
+  const errorCount = report.findings.filter(finding => finding.severity === 'error').length;
+  const warningCount = report.findings.length - errorCount;
+  
+  if (report.findings.length === 0) {
+    console.log(chalk.green(`\n✓`) + ` Everything looks healthy!`);
+  } else {
+    const parts = [];
+    if (errorCount > 0) parts.push(`${errorCount} ${errorCount === 1 ? 'problem' : 'problems'}`);
+    if (warningCount > 0) parts.push(`${warningCount} ${warningCount === 1 ? 'warning' : 'warnings'}`);
+    console.log(`\nI found ${parts.join(' and ')}. Each one above comes with what I'd try first.`);
+  }
+  
+  return report;
+}
@@ -16,29 +16,58 @@
  * License along with this library; if not, see <https://www.gnu.org/licenses/>.
  */
 
-import chalk from '../vendor/chalk';
-
 import { discoverClaudeDirectories } from 'src/discovery-phase';
-import { makeInstallDecision } from 'src/decision-phase';
-import { performInstallation, reportInstallResults } from 'src/install-phase';
+import { makeInstallDecision, makeTargetDecision } from 'src/decision-phase';
+import { InstallOptions, InstallResult, performInstallation, reportInstallResults } from 'src/install-phase';
+import { installRecursively } from 'src/recursive-phase';
+import { displaySettingsFile, scopeForSettingsFile, settingsFileForScope } from 'src/scopes';
+import { defaultReporter } from 'src/reporter';
+import { Hooks, SettingsFileName } from 'src/types';
+import { assertValidHookDefinition } from 'src/validate';
 
 export async function installHooks(
-  hooksToInstall: Record<string, any[]>, 
-  settingsFile: 'settings.json' | 'settings.local.json' = 'settings.local.json'
-): Promise<void> {
-  const hookCount = Object.keys(hooksToInstall).length;
-  const fileType = settingsFile === 'settings.local.json' ? '(personal, not committed)' : '(shared, committed with repo)';
-  console.log(chalk.blue('◆') + ` Installing ${hookCount} ${hookCount > 1 ? "hooks" : "hook"} into .claude/${settingsFile} ` + chalk.gray(`${fileType}\n`));
+  hooksToInstall: Hooks,
+  settingsFile: SettingsFileName = 'settings.local.json',
+  options: InstallOptions = {}
+): Promise<InstallResult> {
+  // Nothing malformed gets near a settings file
+  assertValidHookDefinition(hooksToInstall);
+  
+  // The scope option wins over the settingsFile argument
+  const scope = options.scope ?? scopeForSettingsFile(settingsFile);
+  const scopeSettingsFile = settingsFileForScope(scope);
+  const reporter = options.reporter ?? defaultReporter;
+  
+  // A dry run never prompts: it shows what answering yes would do, which
+  // without a .claude directory anywhere is creating one here
+  const runOptions: InstallOptions = options.dryRun ? { ...options, yes: true, createIfMissing: true } : options;
   
-  // Phase 1: Discovery
-  const discovery = await discoverClaudeDirectories();
+  reporter.report({
+    type: 'install-started',
+    hookCount: Object.keys(hooksToInstall).length,
+    scope,
+    settingsFile: displaySettingsFile(scope)
+  });
   
-  // Phase 2: Decision
-  const decision = await makeInstallDecision(discovery);
+  // Every project below a root gets the definition, with one diff and one confirmation
+  if (options.recursive !== undefined) {
+    if (scope === 'user') {
+      const error = "--recursive works with project and local settings; user settings don't belong to a project.";
+      reporter.report({ type: 'failed', operation: 'install', error });
+      return { success: false, error };
+    }
+    return await installRecursively(options.recursive, hooksToInstall, { ...runOptions, scope });
+  }
+  
+  // Phase 1 & 2: Discovery and Decision (an explicit target skips the search,
+  // and user scope always lives in the home directory)
+  const decision = options.target && scope !== 'user'
+    ? await makeTargetDecision(options.target, runOptions)
+    : await makeInstallDecision(await discoverClaudeDirectories(scope, reporter), runOptions);
   
   if (!decision.proceed) {
     // User cancelled
-    return;
+    return { success: false, cancelled: true };
   }
   
   // Phase 3: Installation
@@ -46,9 +75,12 @@ export async function installHooks(
     decision.targetDirectory!,
     decision.createNewDirectory,
     hooksToInstall,
-    settingsFile
+    scopeSettingsFile,
+    { ...runOptions, scope }
   );
   
   // Report results
-  reportInstallResults(result, hooksToInstall);
+  reportInstallResults(result, hooksToInstall, reporter);
+  
+  return result;
 } 
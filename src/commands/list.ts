@@ -0,0 +1,117 @@
+/*
+ * CLI tool for managing Claude Code hooks
+ * Copyright (C) 2025  Peoples Grocers LLC
+ *
+ * This library is free software; you can redistribute it and/or
+ * modify it under the terms of the GNU Lesser General Public
+ * License as published by the Free Software Foundation; either
+ * version 2.1 of the License, or (at your option) any later version.
+ *
+ * This library is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the GNU
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public
+ * License along with this library; if not, see <https://www.gnu.org/licenses/>.
+ */
+
+import chalk from '../vendor/chalk';
+
+import { HookListing, ListedHook, listEffectiveHooks } from 'src/list-phase';
+import { describeHook } from 'src/hook-entry';
+import { displayPath } from 'src/scopes';
+import { Hooks } from 'src/types';
+
+export interface ListOptions {
+  /** Print the listing as JSON instead of a table */
+  json?: boolean;
+}
+
+/**
+ * Show every hook Claude would see from the current directory, grouped by
+ * event, with the file and line each one comes from
+ */
+export async function listHooks(
+  knownDefinitions: Record<string, Hooks> = {},
+  options: ListOptions = {}
+): Promise<HookListing> {
+  const listing = await listEffectiveHooks(knownDefinitions);
+  
+  if (options.json) {
+    console.log(JSON.stringify(listing, null, 2));
+    return listing;
+  }
+  
+  console.log(`Reading hooks from...`);
+  for (const source of listing.sources) {
+    const marker = source.exists ? chalk.green('✓') : chalk.red('✗');
+    const note = source.parseErrorCount > 0
+      ? chalk.yellow(` (${source.parseErrorCount} parse ${source.parseErrorCount === 1 ? 'error' : 'errors'}, showing what I could read)`)
+      : '';
+    console.log(`  ${marker} ${chalk.gray(displayPath(source.path))} ${chalk.gray(`[${source.scope}]`)}${note}`);
+  }
+  
+  if (listing.hooks.length === 0) {
+    console.log(`\nNo hooks are configured here.`);
+    return listing;
+  }
+  
+  printTable(listing.hooks);
+  
+  const knownCount = listing.hooks.filter(hook => hook.definitionName).length;
+  if (knownCount > 0) {
+    console.log(chalk.gray(`\n◆ marks ${knownCount} ${knownCount === 1 ? 'entry' : 'entries'} that came from a known hook definition`));
+  }
+  
+  return listing;
+}
+
+/**
+ * Print hooks as an event → matcher → command table with provenance
+ */
+function printTable(hooks: ListedHook[]): void {
+  // Group by event in order of first appearance, keeping file order within each event
+  const eventOrder = [...new Set(hooks.map(entry => entry.eventName))];
+  const grouped = eventOrder.flatMap(eventName => hooks.filter(entry => entry.eventName === eventName));
+  
+  const rows = grouped.map(entry => ({
+    event: entry.eventName,
+    matcher: entry.matcher === '' ? '(all)' : entry.matcher,
+    command: describeHook(entry.hook),
+    source: `${displayPath(entry.sourcePath)}:${entry.line}`,
+    definition: entry.definitionName
+  }));
+  
+  const headers = { event: 'Event', matcher: 'Matcher', command: 'Command', source: 'Source' };
+  const widths = {
+    event: Math.max(headers.event.length, ...rows.map(row => row.event.length)),
+    matcher: Math.max(headers.matcher.length, ...rows.map(row => row.matcher.length)),
+    command: Math.max(headers.command.length, ...rows.map(row => row.command.length))
+  };
+  
+  console.log('');
+  console.log('  ' + chalk.cyan(
+    headers.event.padEnd(widths.event) + '  ' +
+    headers.matcher.padEnd(widths.matcher) + '  ' +
+    headers.command.padEnd(widths.command) + '  ' +
+    headers.source
+  ));
+  
+  let previousEvent: string | undefined;
+  for (const row of rows) {
+    // Only name the event on its first row so groups stand out
+    const event = row.event === previousEvent ? '' : row.event;
+    previousEvent = row.event;
+    
+    const marker = row.definition ? chalk.blue('◆') : ' ';
+    const definition = row.definition ? chalk.blue(` ${row.definition}`) : '';
+    console.log(
+      marker + ' ' +
+      event.padEnd(widths.event) + '  ' +
+      row.matcher.padEnd(widths.matcher) + '  ' +
+      row.command.padEnd(widths.command) + '  ' +
+      chalk.gray(row.source) + definition
+    );
+  }
+}
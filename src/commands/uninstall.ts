@@ -16,38 +16,194 @@
  * License along with this library; if not, see <https://www.gnu.org/licenses/>.
  */
 
-import chalk from '../vendor/chalk';
+import { promises as fs } from 'fs';
+import path from 'path';
 
-import { discoverClaudeDirectories } from 'src/discovery-phase';
-import { performUninstallation, UninstallOptions } from 'src/install-phase';
+import { discoverClaudeDirectories, findSettingsFiles } from 'src/discovery-phase';
+import { chooseMany } from 'src/decision-phase';
+import {
+  performUninstallation,
+  reportUninstallResults,
+  scanSettingsFiles,
+  SettingsFileMatches,
+  UninstallOptions,
+  UninstallResult,
+  UninstallStrategy
+} from 'src/uninstall-phase';
+import { uninstallRecursively } from 'src/recursive-phase';
+import { displayPath, settingsFileForScope } from 'src/scopes';
+import { defaultReporter, Reporter } from 'src/reporter';
+import { Hooks } from 'src/types';
+import { assertValidHookDefinition } from 'src/validate';
 
 /**
- * Main uninstall workflow using the same approach as install
+ * Main uninstall workflow using the same approach as install. Without a
+ * scope, every settings file that applies here is looked through.
  */
-export async function uninstallHooks(hooksToRemove: Record<string, any[]>, options: UninstallOptions = {}): Promise<void> {
-  // Phase 1: Discovery
-  const discovery = await discoverClaudeDirectories();
-  
-  // Phase 2: Simple Decision Logic
-  if (!discovery.claudeDirectoryFound) {
-    console.log('No .claude directory found. Nothing to uninstall.');
-    return;
+export async function uninstallHooks(hooksToRemove: Hooks, options: UninstallOptions = {}): Promise<UninstallResult> {
+  assertValidHookDefinition(hooksToRemove);
+  return await runUninstall({ by: 'definition', hooks: hooksToRemove }, options);
+}
+
+/**
+ * Uninstall every hook whose command runs a binary, whatever definition put
+ * it there. Every match is listed before anything is removed.
+ */
+export async function uninstallBinary(binaryName: string, options: UninstallOptions = {}): Promise<UninstallResult> {
+  return await runUninstall({ by: 'binary', binaryName }, { binaryName, ...options });
+}
+
+/**
+ * Find the settings file (or files) to clean, then hand each one to the
+ * uninstall engine with the strategy
+ */
+async function runUninstall(strategy: UninstallStrategy, options: UninstallOptions): Promise<UninstallResult> {
+  const reporter = options.reporter ?? defaultReporter;
+  
+  // A dry run never prompts: it shows what answering yes would do
+  const runOptions: UninstallOptions = options.dryRun ? { ...options, yes: true } : options;
+  
+  // Every project below a root, each in its own .claude directory (local scope unless told otherwise)
+  if (options.recursive !== undefined) {
+    if (options.scope === 'user') {
+      const error = "--recursive works with project and local settings; user settings don't belong to a project.";
+      reporter.report({ type: 'failed', operation: 'uninstall', error });
+      return { success: false, error };
+    }
+    return await uninstallRecursively(options.recursive, strategy, { ...runOptions, scope: options.scope });
+  }
+  
+  if (options.scope === undefined) {
+    return await uninstallFromEveryScope(strategy, runOptions, reporter);
   }
   
-  if (!discovery.settingsFileExists) {
-    console.log('No settings.local.json found. Nothing to uninstall.');
-    return;
+  const scope = options.scope;
+  let targetDirectory: string;
+  let inParentDirectory = false;
+  
+  if (options.target && scope !== 'user') {
+    // An explicit target skips the search
+    targetDirectory = path.resolve(options.target);
+  } else {
+    // Phase 1: Discovery
+    const discovery = await discoverClaudeDirectories(scope, reporter);
+    
+    // Phase 2: Simple Decision Logic
+    if (!discovery.claudeDirectoryFound) {
+      reporter.report({ type: 'nothing-to-uninstall', reason: 'no-claude-directory' });
+      return { success: true };
+    }
+    
+    if (!discovery.settingsFileExists) {
+      reporter.report({
+        type: 'nothing-to-uninstall',
+        reason: 'no-settings-file',
+        path: path.join(discovery.claudeDirectoryPath!, '.claude', settingsFileForScope(scope))
+      });
+      return { success: true };
+    }
+    
+    if (scope !== 'user' && !discovery.isInCurrentDirectory && options.parent === false) {
+      reporter.report({ type: 'nothing-to-uninstall', reason: 'parent-excluded', path: discovery.claudeDirectoryPath });
+      return { success: true };
+    }
+    
+    targetDirectory = discovery.claudeDirectoryPath!;
+    inParentDirectory = scope !== 'user' && !discovery.isInCurrentDirectory;
+  }
+  
+  // Removing by binary name can reach further than expected: list every match first
+  if (strategy.by === 'binary') {
+    const settingsPath = path.join(targetDirectory, '.claude', settingsFileForScope(scope));
+    const exists = await fs.access(settingsPath).then(() => true, () => false);
+    const found = await scanSettingsFiles([{ scope, directory: targetDirectory, path: settingsPath, exists }], strategy, options);
+    if (found.length > 0) {
+      reportMatches(found, strategy.binaryName, reporter);
+    }
   }
   
   // Phase 3: Uninstallation
   const result = await performUninstallation(
-    discovery.claudeDirectoryPath!,
-    hooksToRemove,
-    options
+    targetDirectory,
+    strategy,
+    { ...runOptions, scope, inParentDirectory }
   );
   
-  // Results are reported within performUninstallation
-  if (!result.success && result.error) {
-    console.log(chalk.red(`\n❌ Uninstallation failed: ${result.error}`));
+  reportUninstallResults(result, reporter);
+  
+  return result;
+}
+
+/**
+ * Find the definition's hooks in every settings file (user, and project and
+ * local in each .claude directory from here up), show where they are, and
+ * let the user pick which files to clean. Each picked file then gets its
+ * own diff and confirmation.
+ */
+async function uninstallFromEveryScope(
+  strategy: UninstallStrategy,
+  options: UninstallOptions,
+  reporter: Reporter
+): Promise<UninstallResult> {
+  const label = options.binaryName || (strategy.by === 'binary' ? strategy.binaryName : 'hooks');
+  const startDirectory = path.resolve(options.target ?? process.cwd());
+  
+  // An explicit target means that project only; --no-parent keeps to this one
+  const locations = (await findSettingsFiles(startDirectory)).filter(location =>
+    location.scope === 'user'
+      ? options.target === undefined
+      : location.directory === startDirectory || (options.target === undefined && options.parent !== false));
+  
+  const found = await scanSettingsFiles(locations, strategy, options);
+  if (found.length === 0) {
+    reporter.report({ type: 'nothing-to-uninstall', reason: 'no-matches', label });
+    return { success: true, files: [] };
   }
-} 
+  
+  reportMatches(found, label, reporter);
+  
+  const chosen = found.length === 1
+    ? found.map(({ location }) => location)
+    : await chooseMany(
+        'Which settings files should I clean?',
+        found.map(({ location, matches }) => ({
+          title: `${displayPath(location.path)} [${location.scope}]`,
+          value: location
+        })),
+        options,
+        'Pass --yes to clean all of them, or --scope to pick one.'
+      );
+  
+  if (chosen.length === 0) {
+    reporter.report({ type: 'cancelled', operation: 'uninstall', stage: 'decision' });
+    return { success: false, cancelled: true, files: [] };
+  }
+  
+  const files: UninstallResult[] = [];
+  for (const location of chosen) {
+    const result = await performUninstallation(location.directory, strategy, {
+      ...options,
+      scope: location.scope,
+      inParentDirectory: location.scope !== 'user' && location.directory !== startDirectory
+    });
+    reportUninstallResults(result, reporter);
+    files.push(result);
+  }
+  
+  const failed = files.find(result => !result.success);
+  return {
+    success: failed === undefined,
+    ...(failed?.error && { error: failed.error }),
+    ...(failed?.cancelled && { cancelled: true }),
+    removedCount: files.reduce((total, result) => total + (result.removedCount ?? 0), 0),
+    files
+  };
+}
+
+function reportMatches(found: SettingsFileMatches[], label: string, reporter: Reporter): void {
+  reporter.report({
+    type: 'uninstall-matches',
+    label,
+    files: found.map(({ location, matches }) => ({ path: location.path, scope: location.scope, matches }))
+  });
+}
@@ -0,0 +1,93 @@
+/*
+ * CLI tool for managing Claude Code hooks
+ * Copyright (C) 2025  Peoples Grocers LLC
+ *
+ * This library is free software; you can redistribute it and/or
+ * modify it under the terms of the GNU Lesser General Public
+ * License as published by the Free Software Foundation; either
+ * version 2.1 of the License, or (at your option) any later version.
+ *
+ * This library is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the GNU
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public
+ * License along with this library; if not, see <https://www.gnu.org/licenses/>.
+ */
+
+import path from 'path';
+
+import { discoverClaudeDirectories } from 'src/discovery-phase';
+import { InstallResult } from 'src/install-phase';
+import { performUpgrade, UpgradeOptions } from 'src/upgrade-phase';
+import { settingsFileForScope } from 'src/scopes';
+import { defaultReporter } from 'src/reporter';
+import { DefinitionVersion, Hooks } from 'src/types';
+import { assertValidHookDefinition } from 'src/validate';
+
+/**
+ * Upgrade workflow: find the settings file the same way uninstall does, then
+ * move it from an earlier version of the hooks to these
+ */
+export async function upgradeHooks(
+  from: DefinitionVersion[],
+  hooksToInstall: Hooks,
+  options: UpgradeOptions = {}
+): Promise<InstallResult> {
+  assertValidHookDefinition(hooksToInstall);
+  if (from.length === 0) {
+    throw new Error(
+      `I don't know which version to upgrade from. Pass --from <old-definition>, ` +
+      `or list earlier versions under "previous" in the definition file.`
+    );
+  }
+  
+  const scope = options.scope ?? 'local';
+  const reporter = options.reporter ?? defaultReporter;
+  
+  // A dry run never prompts: it shows what answering yes would do
+  const runOptions: UpgradeOptions = options.dryRun ? { ...options, yes: true } : options;
+  let targetDirectory: string;
+  let inParentDirectory = false;
+  
+  if (options.target && scope !== 'user') {
+    // An explicit target skips the search
+    targetDirectory = path.resolve(options.target);
+  } else {
+    // Phase 1: Discovery
+    const discovery = await discoverClaudeDirectories(scope, reporter);
+    
+    // Phase 2: Simple Decision Logic
+    if (!discovery.claudeDirectoryFound) {
+      reporter.report({ type: 'nothing-to-upgrade', reason: 'no-claude-directory' });
+      return { success: true };
+    }
+    
+    if (!discovery.settingsFileExists) {
+      reporter.report({
+        type: 'nothing-to-upgrade',
+        reason: 'no-settings-file',
+        path: path.join(discovery.claudeDirectoryPath!, '.claude', settingsFileForScope(scope))
+      });
+      return { success: true };
+    }
+    
+    if (scope !== 'user' && !discovery.isInCurrentDirectory && options.parent === false) {
+      reporter.report({ type: 'nothing-to-upgrade', reason: 'parent-excluded', path: discovery.claudeDirectoryPath });
+      return { success: true };
+    }
+    
+    targetDirectory = discovery.claudeDirectoryPath!;
+    inParentDirectory = scope !== 'user' && !discovery.isInCurrentDirectory;
+  }
+  
+  // Phase 3: Upgrade
+  const result = await performUpgrade(targetDirectory, from, hooksToInstall, { ...runOptions, scope, inParentDirectory });
+  
+  if (!result.success && result.error && !result.cancelled) {
+    reporter.report({ type: 'failed', operation: 'upgrade', error: result.error });
+  }
+  
+  return result;
+}
@@ -16,12 +16,15 @@
  * License along with this library; if not, see <https://www.gnu.org/licenses/>.
  */
 
+import { promises as fs } from 'fs';
 import path from 'path';
 
 import prompts from 'prompts';
 import chalk from './vendor/chalk';
 
 import { DiscoveryResult } from 'src/discovery-phase';
+import { isInsideDirectory } from 'src/git';
+import { defaultReporter, Reporter } from 'src/reporter';
 
 export interface DecisionResult {
   proceed: boolean;
@@ -29,13 +32,121 @@ export interface DecisionResult {
   createNewDirectory: boolean;
 }
 
+/**
+ * Answers decided ahead of time, so the whole flow can run without a TTY
+ * (CI, devcontainers, provisioning scripts)
+ */
+export interface DecisionOptions {
+  /** Answer yes to every confirmation instead of asking */
+  yes?: boolean;
+  /** Project directory whose .claude to use, instead of searching from cwd */
+  target?: string;
+  /** Create the .claude directory when there isn't one (in target or cwd) */
+  createIfMissing?: boolean;
+  /** Set to false to never use a .claude directory found in a parent folder */
+  parent?: boolean;
+  /** Where progress and questions get reported (defaults to the pretty console output) */
+  reporter?: Reporter;
+}
+
+/**
+ * Thrown when a decision is needed, no option answers it, and there is no
+ * terminal to ask on. The CLI turns this into EXIT_DECISION_REQUIRED.
+ */
+export class DecisionRequiredError extends Error {
+  constructor(public readonly question: string, public readonly hint: string) {
+    super(`I need an answer to "${question}" but there's no terminal to ask on. ${hint}`);
+    this.name = 'DecisionRequiredError';
+  }
+}
+
+/**
+ * Exit code used when a non-interactive run stops at an unanswered decision
+ */
+export const EXIT_DECISION_REQUIRED = 3;
+
+/**
+ * Whether we may put a prompt in front of the user
+ */
+export function canPrompt(options: DecisionOptions): boolean {
+  return !options.yes && Boolean(process.stdin.isTTY);
+}
+
+/**
+ * Ask a yes/no question, or answer it from the options when we can't prompt.
+ * `--yes` answers yes; without a TTY and without `--yes` we stop instead of hanging.
+ */
+export async function confirm(
+  message: string,
+  initial: boolean,
+  options: DecisionOptions = {},
+  hint: string = 'Pass --yes to confirm ahead of time.'
+): Promise<boolean> {
+  if (options.yes) {
+    return true;
+  }
+  
+  if (!canPrompt(options)) {
+    throw new DecisionRequiredError(message, hint);
+  }
+  
+  const response = await prompts({
+    type: 'confirm',
+    name: 'confirmed',
+    message,
+    initial
+  });
+  
+  return response.confirmed === true;
+}
+
+/**
+ * Let the user tick some of several choices, all ticked to start with.
+ * `--yes` takes them all; without a TTY and without `--yes` we stop instead of hanging.
+ */
+export async function chooseMany<T>(
+  message: string,
+  choices: Array<{ title: string; value: T }>,
+  options: DecisionOptions = {},
+  hint: string = 'Pass --yes to take all of them.'
+): Promise<T[]> {
+  if (options.yes) {
+    return choices.map(choice => choice.value);
+  }
+  
+  if (!canPrompt(options)) {
+    throw new DecisionRequiredError(message, hint);
+  }
+  
+  const response = await prompts({
+    type: 'multiselect',
+    name: 'chosen',
+    message,
+    choices: choices.map(choice => ({ ...choice, selected: true })),
+    instructions: false,
+    hint: '- Space to toggle, Enter to confirm'
+  });
+  
+  return Array.isArray(response.chosen) ? response.chosen : [];
+}
+
 /**
  * Decision Phase: Get user confirmation or choice about where to install
  */
-export async function makeInstallDecision(discovery: DiscoveryResult): Promise<DecisionResult> {
+export async function makeInstallDecision(
+  discovery: DiscoveryResult,
+  options: DecisionOptions = {}
+): Promise<DecisionResult> {
+  const reporter = options.reporter ?? defaultReporter;
+  
+  // User scope has exactly one home: ~/.claude
+  if (discovery.scope === 'user') {
+    return await decideUserDirectory(discovery, options);
+  }
+  
   // Case 1: Found .claude in current directory - proceed immediately
   if (discovery.claudeDirectoryFound && discovery.isInCurrentDirectory) {
-    console.log(chalk.green(`\nGreat! I'll use the .claude directory that's already here.`));
+    reporter.report({ type: 'directory-chosen', path: discovery.claudeDirectoryPath!, reason: 'current' });
     return {
       proceed: true,
       targetDirectory: discovery.claudeDirectoryPath,
@@ -48,19 +159,19 @@ export async function makeInstallDecision(discovery: DiscoveryResult): Promise<D
     const relativePath = path.relative(process.cwd(), discovery.claudeDirectoryPath!);
     const displayPath = relativePath.split(path.sep).map(() => '..').join('/');
     
-    console.log('\n' + chalk.yellow('⚠') + '  I need to check something with you:');
-    console.log(chalk.white(`I found a .claude directory in a parent folder (${displayPath})`));
-    console.log(chalk.gray(`If I install there, the hooks will apply to that entire project.`));
-    console.log(chalk.gray(`That includes this directory and all its siblings.`));
+    const outsideRepository = isOutsideRepository(discovery.claudeDirectoryPath!, discovery);
+    reporter.report({ type: 'parent-directory-found', path: discovery.claudeDirectoryPath!, displayPath, outsideRepository });
     
-    const response = await prompts({
-      type: 'confirm',
-      name: 'useParent',
-      message: 'Should I use that parent .claude directory?',
-      initial: true
-    });
+    const useParent = options.parent === false
+      ? false
+      : await confirm(
+          'Should I use that parent .claude directory?',
+          true,
+          options,
+          'Pass --yes to use it, or --no-parent to skip it.'
+        );
     
-    if (response.useParent) {
+    if (useParent) {
       return {
         proceed: true,
         targetDirectory: discovery.claudeDirectoryPath,
@@ -69,20 +180,135 @@ export async function makeInstallDecision(discovery: DiscoveryResult): Promise<D
     }
     
     // User said no to parent, offer to create new one
-    console.log(`\nOkay, I won't use the parent directory.`);
-    return await offerToCreateNew(discovery);
+    reporter.report({ type: 'parent-directory-declined', path: discovery.claudeDirectoryPath! });
+    return await offerToCreateNew(discovery, options);
   }
   
   // Case 3: No .claude directory found - offer choices
-  return await offerToCreateNew(discovery);
+  return await offerToCreateNew(discovery, options);
+}
+
+/**
+ * Decision for an explicit --target directory: use its .claude if it has one,
+ * otherwise create it when allowed
+ */
+export async function makeTargetDecision(
+  target: string,
+  options: DecisionOptions = {}
+): Promise<DecisionResult> {
+  const reporter = options.reporter ?? defaultReporter;
+  const targetDirectory = path.resolve(target);
+  
+  let claudeDirectoryExists = false;
+  try {
+    claudeDirectoryExists = (await fs.stat(path.join(targetDirectory, '.claude'))).isDirectory();
+  } catch {
+    // Doesn't exist yet
+  }
+  
+  if (claudeDirectoryExists) {
+    reporter.report({ type: 'directory-chosen', path: targetDirectory, reason: 'target' });
+    return {
+      proceed: true,
+      targetDirectory,
+      createNewDirectory: false
+    };
+  }
+  
+  reporter.report({ type: 'directory-missing', path: targetDirectory, reason: 'target' });
+  
+  const create = options.createIfMissing || await confirm(
+    `Should I create a .claude directory in ${targetDirectory}?`,
+    true,
+    options,
+    'Pass --create-if-missing to let me create it.'
+  );
+  
+  if (!create) {
+    reporter.report({ type: 'cancelled', operation: 'install', stage: 'decision' });
+    return {
+      proceed: false,
+      createNewDirectory: false
+    };
+  }
+  
+  return {
+    proceed: true,
+    targetDirectory,
+    createNewDirectory: true
+  };
+}
+
+/**
+ * User scope decision: use ~/.claude, creating it if the user agrees
+ */
+async function decideUserDirectory(discovery: DiscoveryResult, options: DecisionOptions): Promise<DecisionResult> {
+  const reporter = options.reporter ?? defaultReporter;
+  const homeDir = discovery.candidateDirectories[0];
+  
+  if (discovery.claudeDirectoryFound) {
+    reporter.report({ type: 'directory-chosen', path: homeDir, reason: 'user' });
+    return {
+      proceed: true,
+      targetDirectory: homeDir,
+      createNewDirectory: false
+    };
+  }
+  
+  reporter.report({ type: 'directory-missing', path: homeDir, reason: 'user' });
+  
+  const create = options.createIfMissing || await confirm(
+    `Should I create ${path.join(homeDir, '.claude')}?`,
+    true,
+    options,
+    'Pass --create-if-missing to let me create it.'
+  );
+  
+  if (!create) {
+    reporter.report({ type: 'cancelled', operation: 'install', stage: 'decision' });
+    return {
+      proceed: false,
+      createNewDirectory: false
+    };
+  }
+  
+  return {
+    proceed: true,
+    targetDirectory: homeDir,
+    createNewDirectory: true
+  };
+}
+
+/**
+ * A directory above the git repository the user is working in: hooks put
+ * there would run for other projects too
+ */
+function isOutsideRepository(directory: string, discovery: DiscoveryResult): boolean {
+  return discovery.repositoryRoot !== undefined && !isInsideDirectory(directory, discovery.repositoryRoot);
 }
 
 /**
  * Offer to create a new .claude directory when none exists or user declined parent
  */
-async function offerToCreateNew(discovery: DiscoveryResult): Promise<DecisionResult> {
-  console.log(`\nI can create a new .claude directory for you.`);
-  console.log(chalk.gray(`This will establish a new scope for Claude settings.`));
+async function offerToCreateNew(discovery: DiscoveryResult, options: DecisionOptions): Promise<DecisionResult> {
+  const reporter = options.reporter ?? defaultReporter;
+  reporter.report({ type: 'create-offered' });
+  
+  if (options.createIfMissing) {
+    reporter.report({ type: 'directory-chosen', path: process.cwd(), reason: 'create-if-missing' });
+    return {
+      proceed: true,
+      targetDirectory: process.cwd(),
+      createNewDirectory: true
+    };
+  }
+  
+  if (!canPrompt(options)) {
+    throw new DecisionRequiredError(
+      'Where should I create the .claude directory?',
+      'Pass --create-if-missing to create it in the current directory, or --target <dir> to choose.'
+    );
+  }
   
   // Build choices from candidate directories
   const choices = discovery.candidateDirectories.map((dir, index) => {
@@ -100,6 +326,10 @@ async function offerToCreateNew(discovery: DiscoveryResult): Promise<DecisionRes
       displayName = `${relativePath} (${path.basename(dir)})`;
     }
     
+    if (isOutsideRepository(dir, discovery)) {
+      displayName += chalk.yellow(' outside your repo');
+    }
+    
     return {
       title: displayName,
       value: dir
@@ -121,7 +351,7 @@ async function offerToCreateNew(discovery: DiscoveryResult): Promise<DecisionRes
   });
   
   if (response.directory === '__CANCEL__' || response.directory === undefined) {
-    console.log(`\nI understand. No changes made.`);
+    reporter.report({ type: 'cancelled', operation: 'install', stage: 'decision' });
     return {
       proceed: false,
       createNewDirectory: false
@@ -0,0 +1,118 @@
+/*
+ * CLI tool for managing Claude Code hooks
+ * Copyright (C) 2025  Peoples Grocers LLC
+ *
+ * This library is free software; you can redistribute it and/or
+ * modify it under the terms of the GNU Lesser General Public
+ * License as published by the Free Software Foundation; either
+ * version 2.1 of the License, or (at your option) any later version.
+ *
+ * This library is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the GNU
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public
+ * License along with this library; if not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+import * as jsonc from 'jsonc-parser';
+
+import { isJsonObject } from './hook-entry';
+import { DefinitionVersion, HookDefinition } from './types';
+import { DefinitionProblem, HookDefinitionError, validateHookDefinition } from './validate';
+
+/**
+ * Load a hook definition from a JSON/JSONC file, or from stdin when the
+ * source is '-'.
+ *
+ * Definitions are written by tool authors, so we accept comments and
+ * trailing commas just like Claude's own settings files do. The parsed value
+ * is validated (see validate.ts) before we hand it to install/uninstall.
+ *
+ * A file is either just the hooks, in the same shape as the `hooks` section
+ * of a settings file, or the long form `{ "id", "version", "hooks" }`. Without
+ * an id the file name (minus extension) is used. The long form may also list
+ * earlier versions under "previous", for upgrade to start from.
+ */
+export async function loadHookDefinition(source: string): Promise<HookDefinition> {
+  const displayName = source === '-' ? 'stdin' : source;
+  const content = source === '-' ? await readStdin() : await fs.readFile(source, 'utf-8');
+
+  const errors: jsonc.ParseError[] = [];
+  const value = jsonc.parse(content, errors, { allowTrailingComma: true });
+
+  if (errors.length > 0) {
+    const first = errors[0];
+    throw new Error(
+      `I couldn't parse the hook definition from ${displayName}: ` +
+      `${jsonc.printParseErrorCode(first.error)} at offset ${first.offset}`
+    );
+  }
+
+  const fallbackId = source === '-' ? 'stdin' : path.basename(source, path.extname(source));
+
+  if (!isLongForm(value)) {
+    const problems = validateHookDefinition(value);
+    if (problems.length > 0) {
+      throw new HookDefinitionError(problems, displayName);
+    }
+    return { id: fallbackId, hooks: value };
+  }
+
+  const problems: DefinitionProblem[] = [];
+  if (value.id !== undefined && (typeof value.id !== 'string' || value.id.trim() === '')) {
+    problems.push({ path: 'id', message: 'expected a non-empty string' });
+  }
+  if (value.version !== undefined && typeof value.version !== 'string') {
+    problems.push({ path: 'version', message: 'expected a string' });
+  }
+  problems.push(...validateHookDefinition(value.hooks).map(problem => ({ ...problem, path: `hooks.${problem.path}` })));
+  if (value.previous !== undefined && !Array.isArray(value.previous)) {
+    problems.push({ path: 'previous', message: 'expected an array of { "version", "hooks" }' });
+  }
+  const previous = Array.isArray(value.previous) ? value.previous : [];
+  previous.forEach((earlier: unknown, index: number) => {
+    if (!isJsonObject(earlier) || !('hooks' in earlier)) {
+      problems.push({ path: `previous[${index}]`, message: 'expected { "version", "hooks" }' });
+      return;
+    }
+    if (earlier.version !== undefined && typeof earlier.version !== 'string') {
+      problems.push({ path: `previous[${index}].version`, message: 'expected a string' });
+    }
+    problems.push(...validateHookDefinition(earlier.hooks)
+      .map(problem => ({ ...problem, path: `previous[${index}].hooks.${problem.path}` })));
+  });
+  if (problems.length > 0) {
+    throw new HookDefinitionError(problems, displayName);
+  }
+
+  return {
+    id: (value.id as string | undefined) ?? fallbackId,
+    ...(value.version !== undefined && { version: value.version as string }),
+    hooks: value.hooks as HookDefinition['hooks'],
+    ...(Array.isArray(value.previous) && { previous: value.previous as DefinitionVersion[] })
+  };
+}
+
+/**
+ * Whether parsed JSON is the `{ id, version, hooks }` form. "hooks" is never
+ * an event name, so its presence is enough to tell.
+ */
+function isLongForm(value: unknown): value is Record<string, unknown> & { hooks: unknown } {
+  return isJsonObject(value) && 'hooks' in value;
+}
+
+/**
+ * Read all of stdin as a UTF-8 string
+ */
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
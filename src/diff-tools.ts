@@ -0,0 +1,208 @@
+/*
+ * CLI tool for managing Claude Code hooks
+ * Copyright (C) 2025  Peoples Grocers LLC
+ *
+ * This library is free software; you can redistribute it and/or
+ * modify it under the terms of the GNU Lesser General Public
+ * License as published by the Free Software Foundation; either
+ * version 2.1 of the License, or (at your option) any later version.
+ *
+ * This library is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the GNU
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public
+ * License along with this library; if not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { spawnSync } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+
+import * as jsonc from 'jsonc-parser';
+
+import chalk from './vendor/chalk';
+import { findOnPath } from './command-parser';
+import { unifiedDiff } from './text-diff';
+
+/**
+ * Environment variable naming the diff command to use, same format as --diff-tool
+ */
+export const DIFF_TOOL_ENV = 'CCHOOKS_DIFF';
+
+/**
+ * Diff tool name for the renderer built into cchooks; it needs nothing installed
+ */
+export const BUILTIN_DIFF_TOOL = 'builtin';
+
+/**
+ * Diff tools we look for, best first, as command templates. {before} and
+ * {after} are replaced with the paths of the two sides.
+ */
+const KNOWN_DIFF_TOOLS: ReadonlyArray<{ program: string; template: string }> = [
+  { program: 'delta', template: 'delta --paging=never {before} {after}' },
+  { program: 'difft', template: 'difft {before} {after}' },
+  { program: 'git', template: 'git --no-pager diff --no-index --color {before} {after}' },
+  { program: 'colordiff', template: 'colordiff -u {before} {after}' }
+];
+
+/**
+ * The diff command to use when none was asked for: the first known tool on
+ * PATH, or the built-in renderer
+ */
+export function detectDiffTool(): string {
+  const known = KNOWN_DIFF_TOOLS.find(({ program }) => findOnPath(program));
+  return known?.template ?? BUILTIN_DIFF_TOOL;
+}
+
+/**
+ * The diff command to use: the one asked for (--diff-tool), then
+ * CCHOOKS_DIFF, then whatever detectDiffTool finds
+ */
+export function resolveDiffTool(requested?: string): string {
+  const chosen = requested?.trim() || process.env[DIFF_TOOL_ENV]?.trim();
+  return chosen || detectDiffTool();
+}
+
+/**
+ * Turn a command template into the shell command to run. A template can use
+ * {before}, {after} and {name} (the settings file name); one without
+ * {before} or {after} gets both paths appended, so plain "diff -u" works.
+ */
+export function diffCommand(template: string, beforePath: string, afterPath: string, fileName: string): string {
+  const values: Record<string, string> = {
+    before: shellQuote(beforePath),
+    after: shellQuote(afterPath),
+    name: shellQuote(fileName)
+  };
+  
+  const command = template.replace(/\{(before|after|name)\}/g, (_, key: string) => values[key]);
+  if (!/\{(before|after)\}/.test(template)) {
+    return `${command} ${values.before} ${values.after}`;
+  }
+  return command;
+}
+
+/**
+ * The diff as unified diff text, coloured like git does. Lines are read as
+ * JSONC, so comments are dimmed instead of taking the line's colour, and
+ * "//" inside a string isn't mistaken for one.
+ */
+export function formatBuiltinDiff(currentContent: string, newContent: string, fileName: string): string {
+  const diff = unifiedDiff(currentContent, newContent, fileName);
+  if (diff === '') {
+    return '';
+  }
+  
+  return diff.trimEnd().split('\n').map(line => {
+    if (line.startsWith('+++') || line.startsWith('---') || line.startsWith('\\')) {
+      return line;
+    } else if (line.startsWith('@@')) {
+      return chalk.cyan(line);
+    } else if (line.startsWith('+')) {
+      return chalk.green('+') + colorJsoncLine(line.slice(1), chalk.green);
+    } else if (line.startsWith('-')) {
+      return chalk.red('-') + colorJsoncLine(line.slice(1), chalk.red);
+    }
+    return line.slice(0, 1) + colorJsoncLine(line.slice(1), text => text);
+  }).join('\n') + '\n';
+}
+
+/**
+ * Show the difference between the current and proposed settings content.
+ *
+ * External tools get both sides written to a temp directory under the real
+ * file name, so the diff reads naturally and works when the settings file
+ * doesn't exist yet (the "before" side is just empty). When the tool can't
+ * be run, the built-in renderer shows the diff instead.
+ */
+export function showDiff(
+  currentContent: string,
+  newContent: string,
+  fileName: string,
+  diffTool: string = resolveDiffTool()
+): void {
+  showDiffs([{ before: currentContent, after: newContent, name: fileName }], diffTool);
+}
+
+/**
+ * Show the changes to several settings files as one diff under one heading.
+ * Names may include directories, e.g. "packages/app/.claude/settings.json".
+ */
+export function showDiffs(
+  files: Array<{ before: string; after: string; name: string }>,
+  diffTool: string = resolveDiffTool()
+): void {
+  const program = diffTool.trim().split(/\s+/)[0];
+  const heading = diffTool === BUILTIN_DIFF_TOOL ? 'Showing diff' : `Showing diff (${program})`;
+  console.log(chalk.blue(`\n${heading}${files.length > 1 ? ` of ${files.length} files` : ''}:\n`));
+  
+  for (const file of files) {
+    if (diffTool === BUILTIN_DIFF_TOOL) {
+      process.stdout.write(formatBuiltinDiff(file.before, file.after, file.name));
+    } else {
+      runDiffTool(file.before, file.after, file.name, diffTool);
+    }
+  }
+}
+
+function runDiffTool(currentContent: string, newContent: string, fileName: string, diffTool: string): void {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'happy-coder-hooks-'));
+  
+  try {
+    const beforePath = path.join(tempDir, 'before', fileName);
+    const afterPath = path.join(tempDir, 'after', fileName);
+    fs.mkdirSync(path.dirname(beforePath), { recursive: true });
+    fs.mkdirSync(path.dirname(afterPath), { recursive: true });
+    fs.writeFileSync(beforePath, currentContent);
+    fs.writeFileSync(afterPath, newContent);
+    
+    // Diff tools exit with 1 when the sides differ; 2 and up is trouble
+    const result = spawnSync(diffCommand(diffTool, beforePath, afterPath, fileName), {
+      shell: true,
+      stdio: 'inherit'
+    });
+    
+    if (result.error || result.status === null || result.status > 1) {
+      const program = diffTool.trim().split(/\s+/)[0];
+      const problem = result.error?.message ?? `exited with ${result.status ?? result.signal}`;
+      console.error(chalk.yellow('⚠') + ` I couldn't run ${program} (${problem}), so here is my own diff:\n`);
+      process.stdout.write(formatBuiltinDiff(currentContent, newContent, fileName));
+    }
+  } finally {
+    fs.rmSync(tempDir, { recursive: true });
+  }
+}
+
+/**
+ * Colour one line of a settings file: comments grey, the rest in `color`
+ */
+function colorJsoncLine(text: string, color: (text: string) => string): string {
+  const scanner = jsonc.createScanner(text, false);
+  let colored = '';
+  let plain = '';
+  
+  for (let token = scanner.scan(); token !== jsonc.SyntaxKind.EOF; token = scanner.scan()) {
+    const tokenText = text.slice(scanner.getTokenOffset(), scanner.getTokenOffset() + scanner.getTokenLength());
+    if (token === jsonc.SyntaxKind.LineCommentTrivia || token === jsonc.SyntaxKind.BlockCommentTrivia) {
+      colored += (plain && color(plain)) + chalk.gray(tokenText);
+      plain = '';
+    } else {
+      plain += tokenText;
+    }
+  }
+  
+  return colored + (plain && color(plain));
+}
+
+/**
+ * Quote a value for the shell, so paths with spaces survive
+ */
+function shellQuote(value: string): string {
+  if (process.platform === 'win32') {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
@@ -20,30 +20,62 @@ import { promises as fs } from 'fs';
 import path from 'path';
 import os from 'os';
 
-import chalk from './vendor/chalk';
+import { SettingsScope } from './types';
+import { settingsFileForScope, userSettingsDirectory } from './scopes';
+import { defaultReporter, Reporter } from './reporter';
+import { IgnoreRule, isIgnored, parseGitignore } from './gitignore';
+import { findRepositoryRoot } from './git';
 
 export interface DiscoveryResult {
+  scope: SettingsScope;
   claudeDirectoryFound: boolean;
   claudeDirectoryPath?: string;
   settingsFileExists?: boolean;
   isInCurrentDirectory?: boolean;
   candidateDirectories: string[];
   searchedDirectories: string[];
+  /** Top of the git repository the current directory is in (project and local scopes) */
+  repositoryRoot?: string;
+}
+
+/**
+ * A settings file Claude could read hooks from
+ */
+export interface SettingsFileLocation {
+  scope: SettingsScope;
+  /** The directory that contains .claude (the home directory for user scope) */
+  directory: string;
+  path: string;
+  exists: boolean;
 }
 
 /**
  * Discovery Phase: Find existing .claude directories and identify candidate locations
  * Returns comprehensive information about what was found and where we looked
+ *
+ * Project and local scopes search upward from the current directory, stopping
+ * below the home directory (its .claude is the user scope, not a project).
+ * User scope only ever looks in the home directory. The git repository
+ * root is noted, so callers can tell which candidates are outside the repo.
  */
-export async function discoverClaudeDirectories(): Promise<DiscoveryResult> {
+export async function discoverClaudeDirectories(
+  scope: SettingsScope = 'local',
+  reporter: Reporter = defaultReporter
+): Promise<DiscoveryResult> {
+  if (scope === 'user') {
+    return await discoverUserDirectory(reporter);
+  }
+  
+  const settingsFile = settingsFileForScope(scope);
   const currentDir = process.cwd();
   const homeDir = os.homedir();
   const rootDir = path.parse(currentDir).root;
+  const repositoryRoot = await findRepositoryRoot(currentDir);
   
   const candidateDirectories: string[] = [];
   const searchedDirectories: string[] = [];
   
-  console.log(`Looking for .claude directory in...`);
+  reporter.report({ type: 'search-started', scope });
   
   // First check current directory
   const currentClaudeDir = path.join(currentDir, '.claude');
@@ -53,31 +85,41 @@ export async function discoverClaudeDirectories(): Promise<DiscoveryResult> {
   try {
     const stats = await fs.stat(currentClaudeDir);
     if (stats.isDirectory()) {
-      console.log(`  ${chalk.green('✓')} ${chalk.gray(currentDir)}`);
+      reporter.report({ type: 'directory-checked', path: currentDir, found: true });
       
-      // Check if settings.local.json exists
-      const settingsPath = path.join(currentClaudeDir, 'settings.local.json');
+      // Check if the scope's settings file exists
+      const settingsPath = path.join(currentClaudeDir, settingsFile);
       let settingsExists = false;
       
       try {
         await fs.stat(settingsPath);
-        console.log(chalk.gray(`  I see there's already a settings.local.json file`));
         settingsExists = true;
       } catch {
-        console.log(chalk.gray(`  No settings.local.json file yet`));
+        // Not created yet
       }
+      reporter.report({ type: 'settings-checked', path: settingsPath, exists: settingsExists, inParent: false });
+      reporter.report({
+        type: 'search-finished',
+        scope,
+        found: true,
+        claudeDirectoryPath: currentDir,
+        isInCurrentDirectory: true,
+        searchedCount: searchedDirectories.length
+      });
       
       return {
+        scope,
         claudeDirectoryFound: true,
         claudeDirectoryPath: currentDir,
         settingsFileExists: settingsExists,
         isInCurrentDirectory: true,
         candidateDirectories,
-        searchedDirectories
+        searchedDirectories,
+        repositoryRoot
       };
     }
   } catch {
-    console.log(`  ${chalk.red('✗')} ${chalk.gray(currentDir)}`);
+    reporter.report({ type: 'directory-checked', path: currentDir, found: false });
   }
   
   // Search upward through parent directories
@@ -102,45 +144,216 @@ export async function discoverClaudeDirectories(): Promise<DiscoveryResult> {
       const stats = await fs.stat(claudeDir);
       if (stats.isDirectory() && !foundClaudeDir) {
         foundClaudeDir = searchDir;
-        console.log(`  ${chalk.green('✓')} ${chalk.gray(searchDir)}`);
+        reporter.report({ type: 'directory-checked', path: searchDir, found: true });
         
         // Check for settings file
-        const settingsPath = path.join(claudeDir, 'settings.local.json');
+        const settingsPath = path.join(claudeDir, settingsFile);
         try {
           await fs.stat(settingsPath);
-          console.log(chalk.gray(`     With existing settings.local.json`));
           foundSettingsExists = true;
         } catch {
-          console.log(chalk.gray(`     No settings.local.json yet`));
+          // Not created yet
         }
+        reporter.report({ type: 'settings-checked', path: settingsPath, exists: foundSettingsExists, inParent: true });
         
         // Continue searching to find all candidates
       }
     } catch {
-      console.log(`  ${chalk.red('✗')} ${chalk.gray(searchDir)}`);
+      reporter.report({ type: 'directory-checked', path: searchDir, found: false });
     }
   }
   
   if (foundClaudeDir) {
-    const relativePath = path.relative(currentDir, foundClaudeDir);
-    const displayPath = relativePath.split(path.sep).map(() => '..').join('/');
-    console.log(`\nI found a .claude directory at: ${displayPath}`);
+    reporter.report({
+      type: 'search-finished',
+      scope,
+      found: true,
+      claudeDirectoryPath: foundClaudeDir,
+      isInCurrentDirectory: false,
+      searchedCount: searchedDirectories.length
+    });
     
     return {
+      scope,
       claudeDirectoryFound: true,
       claudeDirectoryPath: foundClaudeDir,
       settingsFileExists: foundSettingsExists,
       isInCurrentDirectory: false,
       candidateDirectories,
-      searchedDirectories
+      searchedDirectories,
+      repositoryRoot
     };
   }
   
-  console.log(chalk.yellow('⚠') + ` No .claude directory found in ${searchedDirectories.length} locations`);
+  reporter.report({ type: 'search-finished', scope, found: false, searchedCount: searchedDirectories.length });
   
   return {
+    scope,
     claudeDirectoryFound: false,
     candidateDirectories: candidateDirectories.reverse(), // Most specific to least specific
-    searchedDirectories
+    searchedDirectories,
+    repositoryRoot
+  };
+}
+
+/**
+ * User scope discovery: the only place to look is ~/.claude
+ */
+async function discoverUserDirectory(reporter: Reporter): Promise<DiscoveryResult> {
+  const homeDir = userSettingsDirectory();
+  const settingsPath = path.join(homeDir, '.claude', settingsFileForScope('user'));
+  
+  reporter.report({ type: 'search-started', scope: 'user' });
+  
+  try {
+    const stats = await fs.stat(path.join(homeDir, '.claude'));
+    if (stats.isDirectory()) {
+      reporter.report({ type: 'directory-checked', path: homeDir, found: true });
+      
+      let settingsExists = false;
+      try {
+        await fs.stat(settingsPath);
+        settingsExists = true;
+      } catch {
+        // Not created yet
+      }
+      reporter.report({ type: 'settings-checked', path: settingsPath, exists: settingsExists, inParent: false });
+      reporter.report({ type: 'search-finished', scope: 'user', found: true, claudeDirectoryPath: homeDir, searchedCount: 1 });
+      
+      return {
+        scope: 'user',
+        claudeDirectoryFound: true,
+        claudeDirectoryPath: homeDir,
+        settingsFileExists: settingsExists,
+        isInCurrentDirectory: false,
+        candidateDirectories: [homeDir],
+        searchedDirectories: [homeDir]
+      };
+    }
+  } catch {
+    // Fall through to not found
+  }
+  
+  reporter.report({ type: 'directory-checked', path: homeDir, found: false });
+  reporter.report({ type: 'search-finished', scope: 'user', found: false, searchedCount: 1 });
+  
+  return {
+    scope: 'user',
+    claudeDirectoryFound: false,
+    candidateDirectories: [homeDir],
+    searchedDirectories: [homeDir]
+  };
+}
+
+/**
+ * List every settings file that applies to a directory, whether or not it
+ * exists yet: the user settings first, then shared and local settings for each
+ * ancestor .claude directory from the outermost project inward.
+ *
+ * Unlike discoverClaudeDirectories this is quiet; callers decide what to show.
+ */
+export async function findSettingsFiles(startDirectory: string = process.cwd()): Promise<SettingsFileLocation[]> {
+  const homeDir = userSettingsDirectory();
+  const locations: SettingsFileLocation[] = [];
+  
+  const userSettingsPath = path.join(homeDir, '.claude', settingsFileForScope('user'));
+  locations.push({
+    scope: 'user',
+    directory: homeDir,
+    path: userSettingsPath,
+    exists: await fileExists(userSettingsPath)
+  });
+  
+  // Walk up to (but not including) the home directory, the same range install searches
+  const projectDirectories: string[] = [];
+  let searchDir = path.resolve(startDirectory);
+  while (searchDir !== homeDir) {
+    try {
+      if ((await fs.stat(path.join(searchDir, '.claude'))).isDirectory()) {
+        projectDirectories.push(searchDir);
+      }
+    } catch {
+      // No .claude here
+    }
+    
+    const parentDir = path.dirname(searchDir);
+    if (parentDir === searchDir) {
+      break;
+    }
+    searchDir = parentDir;
+  }
+  
+  for (const directory of projectDirectories.reverse()) {
+    for (const scope of ['project', 'local'] as const) {
+      const settingsPath = path.join(directory, '.claude', settingsFileForScope(scope));
+      locations.push({
+        scope,
+        directory,
+        path: settingsPath,
+        exists: await fileExists(settingsPath)
+      });
+    }
+  }
+  
+  return locations;
+}
+
+// Never worth looking inside, whatever .gitignore says
+const SKIPPED_DIRECTORIES = new Set(['node_modules', '.git']);
+
+/**
+ * Find every project below a root that has a .claude directory, for
+ * monorepos where each package has its own. Directories .gitignore files
+ * exclude are skipped, and so are node_modules and .git. Symlinks aren't
+ * followed. The root itself counts when it has a .claude directory.
+ */
+export async function findClaudeDirectoriesBelow(root: string): Promise<string[]> {
+  const rootDirectory = path.resolve(root);
+  const projects: string[] = [];
+  
+  const visit = async (directory: string, inheritedRules: IgnoreRule[]) => {
+    const relativeDirectory = path.relative(rootDirectory, directory).split(path.sep).join('/');
+    let rules = inheritedRules;
+    try {
+      const gitignore = await fs.readFile(path.join(directory, '.gitignore'), 'utf-8');
+      rules = [...inheritedRules, ...parseGitignore(gitignore, relativeDirectory)];
+    } catch {
+      // No .gitignore here
+    }
+    
+    let entries;
+    try {
+      entries = await fs.readdir(directory, { withFileTypes: true });
+    } catch {
+      // Can't read it: nothing we could change in there either
+      return;
+    }
+    
+    if (entries.some(entry => entry.name === '.claude' && entry.isDirectory())) {
+      projects.push(directory);
+    }
+    
+    const subdirectories = entries
+      .filter(entry => entry.isDirectory() && entry.name !== '.claude' && !SKIPPED_DIRECTORIES.has(entry.name))
+      .map(entry => entry.name)
+      .sort();
+    
+    for (const name of subdirectories) {
+      const relativePath = relativeDirectory === '' ? name : `${relativeDirectory}/${name}`;
+      if (!isIgnored(rules, relativePath, true)) {
+        await visit(path.join(directory, name), rules);
+      }
+    }
   };
+  
+  await visit(rootDirectory, []);
+  return projects;
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    return (await fs.stat(filePath)).isFile();
+  } catch {
+    return false;
+  }
 }
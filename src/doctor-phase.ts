@@ -0,0 +1,276 @@
+/*
+ * CLI tool for managing Claude Code hooks
+ * Copyright (C) 2025  Peoples Grocers LLC
+ *
+ * This library is free software; you can redistribute it and/or
+ * modify it under the terms of the GNU Lesser General Public
+ * License as published by the Free Software Foundation; either
+ * version 2.1 of the License, or (at your option) any later version.
+ *
+ * This library is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the GNU
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public
+ * License along with this library; if not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { promises as fs, constants as fsConstants } from 'fs';
+import path from 'path';
+import os from 'os';
+
+import * as jsonc from 'jsonc-parser';
+
+import { findSettingsFiles, SettingsFileLocation } from './discovery-phase';
+import { checkMatcher, eventTakesMatcher, isClaudeCodeEvent, suggestEventName } from './events';
+import { positionAt } from './text-position';
+import { findOnPath, parseCommand } from './command-parser';
+
+export type DoctorCheck = 'parse' | 'executable' | 'matcher' | 'event' | 'permissions';
+
+/**
+ * Something doctor noticed, with what to do about it
+ */
+export interface DoctorFinding {
+  check: DoctorCheck;
+  severity: 'error' | 'warning';
+  sourcePath: string;
+  /** 1-based line in the settings file, when the finding points at an entry */
+  line?: number;
+  message: string;
+  suggestion: string;
+}
+
+export interface DoctorReport {
+  sources: SettingsFileLocation[];
+  findings: DoctorFinding[];
+}
+
+// Commands that are part of the shell rather than programs on PATH
+const SHELL_BUILTINS = new Set([
+  '.', ':', '[', 'alias', 'cd', 'command', 'echo', 'eval', 'exec', 'exit', 'export',
+  'false', 'printf', 'pwd', 'read', 'set', 'source', 'test', 'true', 'type', 'unset'
+]);
+
+/**
+ * Check every settings file that applies to a directory for the problems
+ * that most often stop hooks from running:
+ * - the file doesn't parse
+ * - a hook's program can't be found or isn't executable
+ * - a matcher isn't a valid regular expression
+ * - an event name Claude Code doesn't recognise (usually a typo)
+ * - we couldn't write to the file or its .claude directory
+ */
+export async function diagnoseHooks(startDirectory: string = process.cwd()): Promise<DoctorReport> {
+  const sources = await findSettingsFiles(startDirectory);
+  const findings: DoctorFinding[] = [];
+  
+  for (const source of sources) {
+    findings.push(...await checkPermissions(source));
+    
+    if (!source.exists) continue;
+    
+    const content = await fs.readFile(source.path, 'utf-8');
+    const errors: jsonc.ParseError[] = [];
+    const root = jsonc.parseTree(content, errors, { allowTrailingComma: true });
+    
+    for (const error of errors) {
+      const position = positionAt(content, error.offset);
+      findings.push({
+        check: 'parse',
+        severity: 'error',
+        sourcePath: source.path,
+        line: position.line,
+        message: `This file doesn't parse: ${jsonc.printParseErrorCode(error.error)} at line ${position.line}, column ${position.column}.`,
+        suggestion: `Open it and look just before that spot. A missing comma or an extra bracket is the usual culprit. Claude may ignore the whole file until it's fixed.`
+      });
+    }
+    
+    const hooksNode = root && jsonc.findNodeAtLocation(root, ['hooks']);
+    if (!hooksNode || hooksNode.type !== 'object') continue;
+    
+    for (const property of hooksNode.children ?? []) {
+      const [keyNode, matchersNode] = property.children ?? [];
+      if (!keyNode) continue;
+      const eventName = String(keyNode.value);
+      const eventLine = positionAt(content, keyNode.offset).line;
+      
+      if (!isClaudeCodeEvent(eventName)) {
+        const suggestion = suggestEventName(eventName);
+        findings.push({
+          check: 'event',
+          severity: 'warning',
+          sourcePath: source.path,
+          line: eventLine,
+          message: `Claude Code doesn't know an event called "${eventName}", so these hooks will never run.`,
+          suggestion: suggestion
+            ? `Did you mean "${suggestion}"? Event names are case sensitive.`
+            : `Check the spelling against the hook events in the Claude Code documentation.`
+        });
+      }
+      
+      if (!matchersNode || matchersNode.type !== 'array') continue;
+      
+      for (const matcherNode of matchersNode.children ?? []) {
+        if (matcherNode.type !== 'object') continue;
+        
+        const matcherValueNode = jsonc.findNodeAtLocation(matcherNode, ['matcher']);
+        // Unknown events are checked too, since they're most likely a typo of one that takes a matcher
+        const usesMatcher = eventTakesMatcher(eventName) || !isClaudeCodeEvent(eventName);
+        if (matcherValueNode && typeof matcherValueNode.value === 'string' && usesMatcher) {
+          const problem = checkMatcher(matcherValueNode.value);
+          if (problem) {
+            findings.push({
+              check: 'matcher',
+              severity: 'error',
+              sourcePath: source.path,
+              line: positionAt(content, matcherValueNode.offset).line,
+              message: `The matcher "${matcherValueNode.value}" isn't a valid regular expression (${problem}).`,
+              suggestion: `Matchers are regular expressions like "Edit|Write". Use "*" or leave it empty to match every tool.`
+            });
+          }
+        }
+        
+        const hookNodes = jsonc.findNodeAtLocation(matcherNode, ['hooks']);
+        for (const hookNode of hookNodes?.children ?? []) {
+          const commandNode = jsonc.findNodeAtLocation(hookNode, ['command']);
+          if (!commandNode || typeof commandNode.value !== 'string') continue;
+          
+          const finding = await checkCommand(commandNode.value, source);
+          if (finding) {
+            findings.push({
+              ...finding,
+              sourcePath: source.path,
+              line: positionAt(content, commandNode.offset).line
+            });
+          }
+        }
+      }
+    }
+  }
+  
+  return { sources, findings };
+}
+
+/**
+ * Make sure we (and the user's editor) can write the settings file,
+ * and the directory it lives in for atomic replacement
+ */
+async function checkPermissions(source: SettingsFileLocation): Promise<DoctorFinding[]> {
+  const claudeDir = path.dirname(source.path);
+  const findings: DoctorFinding[] = [];
+  
+  try {
+    await fs.stat(claudeDir);
+  } catch {
+    // Nothing there to check yet
+    return findings;
+  }
+  
+  if (source.exists && !await canAccess(source.path, fsConstants.W_OK)) {
+    findings.push({
+      check: 'permissions',
+      severity: 'error',
+      sourcePath: source.path,
+      message: `I can't write to this file, so hooks can't be installed or removed here.`,
+      suggestion: `Check who owns it with "ls -l ${source.path}", then "chmod u+w ${source.path}" if it's yours.`
+    });
+  }
+  
+  if (!await canAccess(claudeDir, fsConstants.W_OK)) {
+    findings.push({
+      check: 'permissions',
+      severity: 'error',
+      sourcePath: source.path,
+      message: `I can't write to ${claudeDir}, which I need to save settings safely.`,
+      suggestion: `Check who owns it with "ls -ld ${claudeDir}". If a tool created it as root, "sudo chown -R $(whoami) ${claudeDir}" fixes it.`
+    });
+  }
+  
+  return findings;
+}
+
+/**
+ * Check that a hook command's program exists and can be run
+ */
+async function checkCommand(
+  command: string,
+  source: SettingsFileLocation
+): Promise<Omit<DoctorFinding, 'sourcePath' | 'line'> | undefined> {
+  const program = findProgram(command, source);
+  if (!program || SHELL_BUILTINS.has(program)) {
+    return undefined;
+  }
+  
+  // Paths are resolved from the project directory, where Claude runs hooks
+  if (program.includes('/') || program.includes(path.sep)) {
+    const programPath = path.resolve(source.directory, program);
+    
+    if (!await canAccess(programPath, fsConstants.F_OK)) {
+      return {
+        check: 'executable',
+        severity: 'error',
+        message: `The hook command runs ${program}, but that file doesn't exist.`,
+        suggestion: `Check the path. Relative paths are resolved from ${source.directory}; "$CLAUDE_PROJECT_DIR/..." keeps them working from any subdirectory.`
+      };
+    }
+    
+    if (!await canAccess(programPath, fsConstants.X_OK)) {
+      return {
+        check: 'executable',
+        severity: 'error',
+        message: `The hook command runs ${program}, but it isn't executable.`,
+        suggestion: `Run "chmod +x ${programPath}" to let Claude run it.`
+      };
+    }
+    
+    return undefined;
+  }
+  
+  if (!findOnPath(program)) {
+    return {
+      check: 'executable',
+      severity: 'error',
+      message: `The hook command runs "${program}", but I can't find it on your PATH.`,
+      suggestion: `Install it, or use its full path in the command. Claude runs hooks with the PATH of the terminal you started it from.`
+    };
+  }
+  
+  return undefined;
+}
+
+/**
+ * The program a shell command starts, after skipping VAR=value prefixes and
+ * wrappers, and expanding the variables we can know. A package runner like
+ * npx is what has to be installed. Returns undefined when the program
+ * depends on something we can't resolve ahead of time.
+ */
+function findProgram(command: string, source: SettingsFileLocation): string | undefined {
+  const [parsed] = parseCommand(command);
+  if (!parsed) {
+    return undefined;
+  }
+  
+  const word = parsed.runner ? parsed.runner.split(' ')[0] : parsed.executable;
+  const expanded = word
+    .replace(/^~(?=\/|$)/, os.homedir())
+    .replace(/\$\{?CLAUDE_PROJECT_DIR\}?/g, source.directory)
+    .replace(/\$\{?([A-Za-z_][A-Za-z0-9_]*)\}?/g, (match, name) => process.env[name] ?? match);
+  
+  // Still has a variable or substitution we couldn't expand
+  if (/[$`]/.test(expanded)) {
+    return undefined;
+  }
+  
+  return expanded;
+}
+
+async function canAccess(filePath: string, mode: number): Promise<boolean> {
+  try {
+    await fs.access(filePath, mode);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -18,13 +18,26 @@
  * License along with this library; if not, see <https://www.gnu.org/licenses/>.
  */
 
-import { Command } from 'commander';
+import { Command, Option } from 'commander';
 import chalk from './vendor/chalk';
 import { installHooks } from 'src/commands/install';
-import { uninstallHooks } from 'src/commands/uninstall';
+import { uninstallBinary, uninstallHooks } from 'src/commands/uninstall';
+import { upgradeHooks } from 'src/commands/upgrade';
+import { listHooks } from 'src/commands/list';
+import { runDoctor } from 'src/commands/doctor';
+import { loadHookDefinition } from 'src/definition';
+import { DecisionRequiredError, EXIT_DECISION_REQUIRED } from 'src/decision-phase';
+import { HookDefinition, HookMatchMode, Hooks, SettingsScope } from 'src/types';
+import { SETTINGS_SCOPES } from 'src/scopes';
+import { HOOK_MATCH_MODES } from 'src/hook-entry';
+import { DIFF_TOOL_ENV } from 'src/diff-tools';
+import { InstallResult } from 'src/install-phase';
+import { UninstallResult } from 'src/uninstall-phase';
+import { HookDefinitionError } from 'src/validate';
+import { SettingsParseError } from 'src/settings-parse';
 
-// Declarative specification of which hooks to install
-const HOOKS_TO_INSTALL = {
+// Declarative specification of which hooks to install when no definition file is given
+const HOOKS_TO_INSTALL: Hooks = {
   PreToolUse: [
     {
       matcher: '*',
@@ -49,6 +62,36 @@ const HOOKS_TO_INSTALL = {
   ]
 };
 
+interface InstallCommandOptions {
+  scope: SettingsScope;
+  yes?: boolean;
+  target?: string;
+  recursive?: string;
+  createIfMissing?: boolean;
+  parent: boolean;
+  dryRun?: boolean;
+  diffTool?: string;
+  force?: boolean;
+}
+
+interface UninstallCommandOptions {
+  /** Unset means every scope */
+  scope?: SettingsScope;
+  binary?: string;
+  yes?: boolean;
+  target?: string;
+  recursive?: string;
+  parent: boolean;
+  dryRun?: boolean;
+  diffTool?: string;
+  force?: boolean;
+  match: HookMatchMode;
+}
+
+interface UpgradeCommandOptions extends UninstallCommandOptions {
+  from?: string;
+}
+
 const program = new Command();
 
 program
@@ -56,30 +99,260 @@ program
   .description('CLI tool for managing Claude Code hooks')
   .version('1.0.0');
 
+const BUILT_IN_DEFINITION: HookDefinition = { id: 'happy-coder-hooks', hooks: HOOKS_TO_INSTALL };
+
+/**
+ * Resolve the definition to work with: a definition file path, '-' for stdin,
+ * or the built-in happy-coder-hooks set when nothing was given
+ */
+async function resolveDefinition(definition: string | undefined): Promise<HookDefinition> {
+  if (definition === undefined) {
+    return BUILT_IN_DEFINITION;
+  }
+  return await loadHookDefinition(definition);
+}
+
+/**
+ * --scope picks which settings file to work with
+ */
+function scopeOption(defaultScope: SettingsScope | null = 'local'): Option {
+  const option = new Option('--scope <scope>', 'settings file to use: user (~/.claude/settings.json), project (.claude/settings.json) or local (.claude/settings.local.json)')
+    .choices(SETTINGS_SCOPES);
+  return defaultScope ? option.default(defaultScope) : option;
+}
+
+/**
+ * --diff-tool picks how the change is shown before it's made
+ */
+function diffToolOption(): Option {
+  return new Option('--diff-tool <command>', `diff command, e.g. "delta {before} {after}", or builtin (default: $${DIFF_TOOL_ENV}, then delta, difft, git or colordiff if installed)`);
+}
+
+/**
+ * A non-interactive run that needed an answer gets its own exit code,
+ * so provisioning scripts can tell "needs a flag" apart from a real failure
+ */
+function exitWithDecisionRequired(error: DecisionRequiredError): never {
+  console.error(chalk.red('✗') + ` ${error.message}`);
+  process.exit(EXIT_DECISION_REQUIRED);
+}
+
+/**
+ * A dry run answers "would anything change?" the way diff(1) does:
+ * 0 for no change, 1 for a change, 2 when it couldn't tell
+ */
+function exitWithDryRunResult(result: InstallResult | UninstallResult): never {
+  if (!result.success) {
+    process.exit(2);
+  }
+  const changed = result.dryRun?.changed || ('files' in result && result.files?.some(file => file.dryRun?.changed));
+  process.exit(changed ? 1 : 0);
+}
+
 program
   .command('install')
   .description('Install Claude Code hooks')
-  .action(async () => {
+  .argument('[definition]', 'JSON/JSONC hook definition file, or - to read from stdin')
+  .addOption(scopeOption())
+  .option('-y, --yes', 'answer yes to every confirmation')
+  .option('--target <dir>', 'install into the .claude directory of this project directory')
+  .option('--recursive <root>', 'install into every project below this directory that has a .claude directory')
+  .option('--create-if-missing', "create the .claude directory if there isn't one")
+  .option('--no-parent', 'never use a .claude directory found in a parent folder')
+  .option('--dry-run', 'show the diff without writing anything (exit 1 if something would change)')
+  .addOption(diffToolOption())
+  .option('--force', "edit the settings file even when it doesn't parse")
+  .action(async (definition: string | undefined, options: InstallCommandOptions) => {
     //console.log(chalk.blue('◆') + ' Installing Claude hooks');
     //console.log(chalk.gray('Claude hooks are shell commands that run when you use specific tools.'));
     //console.log(chalk.gray('They are configured in .claude directory settings files.\n'));
 
     try {
-      await installHooks(HOOKS_TO_INSTALL);
+      if (options.recursive !== undefined && options.target !== undefined) {
+        console.error(chalk.red('✗') + ' Pass --target or --recursive, not both.');
+        process.exit(1);
+      }
+      
+      const { hooks, ...identity } = await resolveDefinition(definition);
+      const result = await installHooks(hooks, 'settings.local.json', {
+        definition: identity,
+        scope: options.scope,
+        yes: options.yes,
+        target: options.target,
+        recursive: options.recursive,
+        createIfMissing: options.createIfMissing,
+        parent: options.parent,
+        dryRun: options.dryRun,
+        diffTool: options.diffTool,
+        force: options.force
+      });
+      if (options.dryRun) {
+        exitWithDryRunResult(result);
+      }
+      if (!result.success && !result.cancelled) {
+        process.exit(1);
+      }
     } catch (error) {
+      if (error instanceof DecisionRequiredError) {
+        exitWithDecisionRequired(error);
+      }
+      if (error instanceof HookDefinitionError || error instanceof SettingsParseError) {
+        console.error(chalk.red('✗') + ` ${error.message}`);
+        process.exit(options.dryRun ? 2 : 1);
+      }
       console.error(chalk.red('Error installing hooks:'), error);
-      process.exit(1);
+      process.exit(options.dryRun ? 2 : 1);
     }
   });
 
 program
   .command('uninstall')
   .description('Uninstall Claude Code hooks')
-  .action(async () => {
+  .argument('[definition]', 'JSON/JSONC hook definition file, or - to read from stdin')
+  .option('--binary <name>', 'instead of a definition, remove every hook whose command runs this program')
+  .addOption(scopeOption(null))
+  .option('-y, --yes', 'answer yes to every confirmation')
+  .option('--target <dir>', 'uninstall from the .claude directory of this project directory')
+  .option('--recursive <root>', 'uninstall from every project below this directory that has a .claude directory')
+  .option('--no-parent', 'never use a .claude directory found in a parent folder')
+  .option('--dry-run', 'show the diff without writing anything (exit 1 if something would change)')
+  .addOption(diffToolOption())
+  .option('--force', "edit the settings file even when it doesn't parse")
+  .addOption(
+    new Option('--match <mode>', 'identity: same type and command, other fields may differ; exact: every field must match')
+      .choices(HOOK_MATCH_MODES)
+      .default('identity')
+  )
+  .action(async (definition: string | undefined, options: UninstallCommandOptions) => {
     try {
-      await uninstallHooks(HOOKS_TO_INSTALL);
+      if (options.binary && definition !== undefined) {
+        console.error(chalk.red('✗') + ' Pass a definition file or --binary, not both.');
+        process.exit(1);
+      }
+      if (options.recursive !== undefined && options.target !== undefined) {
+        console.error(chalk.red('✗') + ' Pass --target or --recursive, not both.');
+        process.exit(1);
+      }
+      
+      const runOptions = {
+        scope: options.scope,
+        yes: options.yes,
+        target: options.target,
+        recursive: options.recursive,
+        parent: options.parent,
+        dryRun: options.dryRun,
+        diffTool: options.diffTool,
+        force: options.force,
+        match: options.match
+      };
+      let result;
+      if (options.binary) {
+        result = await uninstallBinary(options.binary, runOptions);
+      } else {
+        const { hooks, ...identity } = await resolveDefinition(definition);
+        result = await uninstallHooks(hooks, { ...runOptions, definition: identity, binaryName: identity.id });
+      }
+      if (options.dryRun) {
+        exitWithDryRunResult(result);
+      }
+      if (!result.success && !result.cancelled) {
+        process.exit(1);
+      }
     } catch (error) {
+      if (error instanceof DecisionRequiredError) {
+        exitWithDecisionRequired(error);
+      }
+      if (error instanceof HookDefinitionError || error instanceof SettingsParseError) {
+        console.error(chalk.red('✗') + ` ${error.message}`);
+        process.exit(options.dryRun ? 2 : 1);
+      }
       console.error(chalk.red('Error uninstalling hooks:'), error);
+      process.exit(options.dryRun ? 2 : 1);
+    }
+  });
+
+program
+  .command('upgrade')
+  .description('Upgrade hooks installed from an earlier version of a definition, in one edit')
+  .argument('[definition]', 'JSON/JSONC hook definition file to upgrade to, or - to read from stdin')
+  .option('--from <definition>', 'the earlier definition file to upgrade from (default: the "previous" versions listed in the definition)')
+  .addOption(scopeOption())
+  .option('-y, --yes', 'answer yes to every confirmation')
+  .option('--target <dir>', 'upgrade the .claude directory of this project directory')
+  .option('--no-parent', 'never use a .claude directory found in a parent folder')
+  .option('--dry-run', 'show the diff without writing anything (exit 1 if something would change)')
+  .addOption(diffToolOption())
+  .option('--force', "edit the settings file even when it doesn't parse")
+  .addOption(
+    new Option('--match <mode>', 'identity: same type and command, other fields may differ; exact: every field must match')
+      .choices(HOOK_MATCH_MODES)
+      .default('identity')
+  )
+  .action(async (definition: string | undefined, options: UpgradeCommandOptions) => {
+    try {
+      const { hooks, previous, ...identity } = await resolveDefinition(definition);
+      const from = options.from === undefined ? previous ?? [] : [await loadHookDefinition(options.from)];
+      const result = await upgradeHooks(from, hooks, {
+        definition: identity,
+        scope: options.scope,
+        yes: options.yes,
+        target: options.target,
+        parent: options.parent,
+        dryRun: options.dryRun,
+        diffTool: options.diffTool,
+        force: options.force,
+        match: options.match
+      });
+      if (options.dryRun) {
+        exitWithDryRunResult(result);
+      }
+      if (!result.success && !result.cancelled) {
+        process.exit(1);
+      }
+    } catch (error) {
+      if (error instanceof DecisionRequiredError) {
+        exitWithDecisionRequired(error);
+      }
+      if (error instanceof HookDefinitionError || error instanceof SettingsParseError) {
+        console.error(chalk.red('✗') + ` ${error.message}`);
+        process.exit(options.dryRun ? 2 : 1);
+      }
+      console.error(chalk.red('Error upgrading hooks:'), error instanceof Error ? error.message : error);
+      process.exit(options.dryRun ? 2 : 1);
+    }
+  });
+
+program
+  .command('list')
+  .description('List the hooks Claude will run here, and which settings file each comes from')
+  .argument('[definitions...]', 'hook definition files whose entries should be marked in the list')
+  .option('--json', 'print the listing as JSON')
+  .action(async (definitions: string[], options: { json?: boolean }) => {
+    try {
+      // The built-in set is always recognised, plus any definition files given
+      const knownDefinitions: Record<string, Hooks> = { [BUILT_IN_DEFINITION.id]: BUILT_IN_DEFINITION.hooks };
+      for (const definition of definitions) {
+        const { id, hooks } = await loadHookDefinition(definition);
+        knownDefinitions[id] = hooks;
+      }
+      await listHooks(knownDefinitions, options);
+    } catch (error) {
+      console.error(chalk.red('Error listing hooks:'), error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('doctor')
+  .description('Check your hook setup for problems and suggest fixes')
+  .action(async () => {
+    try {
+      const report = await runDoctor();
+      if (report.findings.some(finding => finding.severity === 'error')) {
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error(chalk.red('Error checking hooks:'), error);
       process.exit(1);
     }
   });
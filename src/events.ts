@@ -0,0 +1,111 @@
+/*
+ * CLI tool for managing Claude Code hooks
+ * Copyright (C) 2025  Peoples Grocers LLC
+ *
+ * This library is free software; you can redistribute it and/or
+ * modify it under the terms of the GNU Lesser General Public
+ * License as published by the Free Software Foundation; either
+ * version 2.1 of the License, or (at your option) any later version.
+ *
+ * This library is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the GNU
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public
+ * License along with this library; if not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Hook events Claude Code understands. A hook under any other name is
+ * silently ignored by Claude, which is why we check for typos.
+ */
+export const CLAUDE_CODE_EVENTS = [
+  'PreToolUse',
+  'PostToolUse',
+  'Notification',
+  'UserPromptSubmit',
+  'Stop',
+  'SubagentStop',
+  'PreCompact',
+  'SessionStart',
+  'SessionEnd'
+] as const;
+
+export type ClaudeCodeEvent = typeof CLAUDE_CODE_EVENTS[number];
+
+/**
+ * Events whose hook entries are filtered by a matcher:
+ * tool names for PreToolUse/PostToolUse, the trigger for PreCompact
+ * (manual, auto) and the source for SessionStart (startup, resume, clear, compact).
+ * The other events run every entry and have no use for one.
+ */
+export const MATCHER_EVENTS: readonly ClaudeCodeEvent[] = [
+  'PreToolUse',
+  'PostToolUse',
+  'PreCompact',
+  'SessionStart'
+];
+
+export function isClaudeCodeEvent(eventName: string): eventName is ClaudeCodeEvent {
+  return (CLAUDE_CODE_EVENTS as readonly string[]).includes(eventName);
+}
+
+export function eventTakesMatcher(eventName: string): boolean {
+  return (MATCHER_EVENTS as readonly string[]).includes(eventName);
+}
+
+/**
+ * Returns why a matcher fails to compile, or undefined if it's fine
+ */
+export function checkMatcher(matcher: string): string | undefined {
+  // Claude treats these as "match everything" rather than as regexes
+  if (matcher === '' || matcher === '*') {
+    return undefined;
+  }
+  
+  try {
+    new RegExp(matcher);
+    return undefined;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * The event name someone most likely meant, for "did you mean" hints.
+ * Catches wrong capitalisation (PreTooluse) and small typos (PostToolUe).
+ */
+export function suggestEventName(eventName: string): ClaudeCodeEvent | undefined {
+  const lowered = eventName.toLowerCase();
+  let best: ClaudeCodeEvent | undefined;
+  let bestDistance = 3;
+  
+  for (const candidate of CLAUDE_CODE_EVENTS) {
+    const distance = editDistance(lowered, candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  
+  return best;
+}
+
+/**
+ * Levenshtein distance between two strings
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+    }
+    previous = current;
+  }
+  
+  return previous[b.length];
+}
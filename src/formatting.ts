@@ -0,0 +1,96 @@
+/*
+ * CLI tool for managing Claude Code hooks
+ * Copyright (C) 2025  Peoples Grocers LLC
+ *
+ * This library is free software; you can redistribute it and/or
+ * modify it under the terms of the GNU Lesser General Public
+ * License as published by the Free Software Foundation; either
+ * version 2.1 of the License, or (at your option) any later version.
+ *
+ * This library is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the GNU
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public
+ * License along with this library; if not, see <https://www.gnu.org/licenses/>.
+ */
+
+import type { FormattingOptions } from 'jsonc-parser';
+
+/**
+ * How a settings file is laid out, as far as our edits care: what
+ * jsonc.modify needs to write new text like the text around it, plus
+ * whether the file ends with a newline
+ */
+export interface DetectedFormatting extends Required<Pick<FormattingOptions, 'tabSize' | 'insertSpaces' | 'eol'>> {
+  finalNewline: boolean;
+}
+
+/**
+ * What we write when the file gives us nothing to go on (new, empty or on one line)
+ */
+export const DEFAULT_FORMATTING: DetectedFormatting = {
+  tabSize: 2,
+  insertSpaces: true,
+  eol: '\n',
+  finalNewline: false
+};
+
+/**
+ * Work out a settings file's indentation, line endings and final newline
+ * from its text, so what we add looks like the human wrote it.
+ *
+ * - Line endings: whichever of CRLF and LF is more common
+ * - Indentation: tabs when more lines are indented with tabs than spaces,
+ *   otherwise the most common step between one line's indent and the next
+ *   (so a file indented 4, 8, 12 is "4 spaces" even with one odd line)
+ * - Final newline: whether the text ends with one
+ */
+export function detectFormatting(content: string): DetectedFormatting {
+  const crlfCount = (content.match(/\r\n/g) ?? []).length;
+  const lfCount = (content.match(/\n/g) ?? []).length - crlfCount;
+  const eol = crlfCount > lfCount ? '\r\n' : '\n';
+  
+  const lines = content.split(/\r?\n/).filter(line => line.trim() !== '');
+  let tabLines = 0;
+  let spaceLines = 0;
+  const stepCounts = new Map<number, number>();
+  let previousIndent = 0;
+  
+  for (const line of lines) {
+    const indent = line.match(/^[ \t]*/)![0];
+    if (indent.startsWith('\t')) {
+      tabLines++;
+      continue;
+    }
+    if (indent.length > 0) {
+      spaceLines++;
+    }
+    
+    const step = Math.abs(indent.length - previousIndent);
+    if (step > 0) {
+      stepCounts.set(step, (stepCounts.get(step) ?? 0) + 1);
+    }
+    previousIndent = indent.length;
+  }
+  
+  // Ties go to the smaller step
+  const [tabSize] = [...stepCounts.entries()]
+    .sort(([stepA, countA], [stepB, countB]) => countB - countA || stepA - stepB)[0] ?? [DEFAULT_FORMATTING.tabSize];
+  
+  return {
+    tabSize: tabLines > spaceLines ? DEFAULT_FORMATTING.tabSize : tabSize,
+    insertSpaces: tabLines <= spaceLines,
+    eol: crlfCount + lfCount === 0 ? DEFAULT_FORMATTING.eol : eol,
+    finalNewline: /\n$/.test(content)
+  };
+}
+
+/**
+ * Give edited text the same final newline (or lack of one) as the original
+ */
+export function keepFinalNewline(text: string, formatting: DetectedFormatting): string {
+  const withoutNewline = text.replace(/\r?\n$/, '');
+  return formatting.finalNewline ? withoutNewline + formatting.eol : withoutNewline;
+}
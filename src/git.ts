@@ -0,0 +1,147 @@
+/*
+ * CLI tool for managing Claude Code hooks
+ * Copyright (C) 2025  Peoples Grocers LLC
+ *
+ * This library is free software; you can redistribute it and/or
+ * modify it under the terms of the GNU Lesser General Public
+ * License as published by the Free Software Foundation; either
+ * version 2.1 of the License, or (at your option) any later version.
+ *
+ * This library is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the GNU
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public
+ * License along with this library; if not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { spawnSync } from 'child_process';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+import { IgnoreRule, isIgnored, parseGitignore } from './gitignore';
+
+/**
+ * The top of the git repository a directory is in, or undefined outside
+ * one. A `.git` file counts too: that's how worktrees and submodules look.
+ */
+export async function findRepositoryRoot(directory: string): Promise<string | undefined> {
+  let current = path.resolve(directory);
+  
+  while (true) {
+    try {
+      await fs.stat(path.join(current, '.git'));
+      return current;
+    } catch {
+      // Not here, keep going up
+    }
+    
+    const parent = path.dirname(current);
+    if (parent === current) {
+      return undefined;
+    }
+    current = parent;
+  }
+}
+
+/**
+ * Whether a directory is the root or somewhere below it
+ */
+export function isInsideDirectory(directory: string, root: string): boolean {
+  const relativePath = path.relative(root, directory);
+  return relativePath === '' || (!relativePath.startsWith('..') && !path.isAbsolute(relativePath));
+}
+
+/**
+ * Whether git would ignore a file (which needn't exist yet). Asks
+ * `git check-ignore`, so global excludes count too; when git isn't
+ * installed or can't answer, reads the .gitignore files and
+ * .git/info/exclude ourselves.
+ */
+export async function isIgnoredByGit(filePath: string, repositoryRoot: string): Promise<boolean> {
+  const result = runGit(repositoryRoot, ['check-ignore', '--quiet', '--', path.relative(repositoryRoot, filePath)]);
+  
+  // 0: ignored, 1: not ignored, anything else: git couldn't tell
+  if (result?.status === 0 || result?.status === 1) {
+    return result.status === 0;
+  }
+  
+  return await isIgnoredLocally(filePath, repositoryRoot);
+}
+
+/**
+ * Whether a file git tracks has changes that aren't committed. Untracked
+ * and ignored files, and anything when git can't run, count as no.
+ */
+export function hasUncommittedChanges(filePath: string, repositoryRoot: string): boolean {
+  const result = runGit(repositoryRoot, ['status', '--porcelain', '--', path.relative(repositoryRoot, filePath)]);
+  if (result?.status !== 0) {
+    return false;
+  }
+  
+  const status = result.stdout.trim();
+  return status !== '' && !status.startsWith('??') && !status.startsWith('!!');
+}
+
+/**
+ * Add a line to the .gitignore in a directory, creating the file if needed
+ * and keeping whatever is in it already. Returns the .gitignore's path.
+ */
+export async function addToGitignore(directory: string, entry: string): Promise<string> {
+  const gitignorePath = path.join(directory, '.gitignore');
+  let content = '';
+  try {
+    content = await fs.readFile(gitignorePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error;
+    }
+  }
+  
+  const newline = content.includes('\r\n') ? '\r\n' : '\n';
+  const separator = content === '' || content.endsWith('\n') ? '' : newline;
+  await fs.writeFile(gitignorePath, `${content}${separator}${entry}${newline}`);
+  return gitignorePath;
+}
+
+function runGit(cwd: string, args: string[]): { status: number | null; stdout: string } | undefined {
+  const result = spawnSync('git', args, { cwd, encoding: 'utf-8', stdio: ['ignore', 'pipe', 'ignore'] });
+  return result.error ? undefined : { status: result.status, stdout: result.stdout };
+}
+
+/**
+ * The .gitignore rules from the repository root down to the file, checked
+ * against the file and every directory it sits in
+ */
+async function isIgnoredLocally(filePath: string, repositoryRoot: string): Promise<boolean> {
+  const parts = path.relative(repositoryRoot, filePath).split(path.sep);
+  const rules: IgnoreRule[] = [];
+  
+  const readRules = async (file: string, base: string) => {
+    try {
+      rules.push(...parseGitignore(await fs.readFile(file, 'utf-8'), base));
+    } catch {
+      // No rules there
+    }
+  };
+  
+  await readRules(path.join(repositoryRoot, '.git', 'info', 'exclude'), '');
+  
+  for (let depth = 0; depth < parts.length; depth++) {
+    const base = parts.slice(0, depth).join('/');
+    await readRules(path.join(repositoryRoot, ...parts.slice(0, depth), '.gitignore'), base);
+    
+    // Nothing inside an ignored directory can be un-ignored
+    const relativePath = parts.slice(0, depth + 1).join('/');
+    const isDirectory = depth < parts.length - 1;
+    if (isIgnored(rules, relativePath, isDirectory) && isDirectory) {
+      return true;
+    }
+    if (!isDirectory) {
+      return isIgnored(rules, relativePath, false);
+    }
+  }
+  
+  return false;
+}
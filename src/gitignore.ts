@@ -0,0 +1,136 @@
+/*
+ * CLI tool for managing Claude Code hooks
+ * Copyright (C) 2025  Peoples Grocers LLC
+ *
+ * This library is free software; you can redistribute it and/or
+ * modify it under the terms of the GNU Lesser General Public
+ * License as published by the Free Software Foundation; either
+ * version 2.1 of the License, or (at your option) any later version.
+ *
+ * This library is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the GNU
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public
+ * License along with this library; if not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * One line of a .gitignore file, ready to test paths against
+ */
+export interface IgnoreRule {
+  /** Directory of the .gitignore, relative to where the search started ('' for the top) */
+  base: string;
+  pattern: RegExp;
+  /** A "!" rule: matching paths are not ignored after all */
+  negated: boolean;
+  /** A rule ending in "/" only matches directories */
+  directoryOnly: boolean;
+}
+
+/**
+ * Read the rules of a .gitignore file that sits in `base`
+ */
+export function parseGitignore(content: string, base: string = ''): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  
+  for (const rawLine of content.split(/\r?\n/)) {
+    // Trailing spaces don't count unless escaped
+    let line = rawLine.replace(/(?<!\\)\s+$/, '');
+    if (line === '' || line.startsWith('#')) continue;
+    
+    const negated = line.startsWith('!');
+    if (negated) {
+      line = line.slice(1);
+    } else if (line.startsWith('\\!') || line.startsWith('\\#')) {
+      line = line.slice(1);
+    }
+    
+    const directoryOnly = line.endsWith('/');
+    if (directoryOnly) {
+      line = line.slice(0, -1);
+    }
+    
+    // A slash anywhere but the end ties the pattern to the .gitignore's directory
+    const anchored = line.includes('/');
+    if (line.startsWith('/')) {
+      line = line.slice(1);
+    }
+    if (line === '') continue;
+    
+    const body = globToRegExp(line);
+    rules.push({
+      base,
+      pattern: new RegExp(anchored ? `^${body}$` : `^(?:.*/)?${body}$`),
+      negated,
+      directoryOnly
+    });
+  }
+  
+  return rules;
+}
+
+/**
+ * Whether a path (relative to where the search started, with "/" between
+ * parts) is ignored. The last rule that matches wins, as in git. Parents
+ * aren't checked here: callers don't look inside ignored directories.
+ */
+export function isIgnored(rules: IgnoreRule[], relativePath: string, isDirectory: boolean): boolean {
+  let ignored = false;
+  
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) continue;
+    
+    const prefix = rule.base === '' ? '' : rule.base + '/';
+    if (!relativePath.startsWith(prefix)) continue;
+    
+    if (rule.pattern.test(relativePath.slice(prefix.length))) {
+      ignored = !rule.negated;
+    }
+  }
+  
+  return ignored;
+}
+
+function globToRegExp(glob: string): string {
+  let source = '';
+  
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    
+    if (char === '*' && glob[i + 1] === '*') {
+      // "**/" is any number of directories, a trailing "/**" everything inside
+      if (glob[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i + 2);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        const set = glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+        source += `[${set}]`;
+        i = end;
+      }
+    } else if (char === '\\' && i + 1 < glob.length) {
+      source += escapeRegExp(glob[++i]);
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  
+  return source;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
@@ -0,0 +1,162 @@
+/*
+ * CLI tool for managing Claude Code hooks
+ * Copyright (C) 2025  Peoples Grocers LLC
+ *
+ * This library is free software; you can redistribute it and/or
+ * modify it under the terms of the GNU Lesser General Public
+ * License as published by the Free Software Foundation; either
+ * version 2.1 of the License, or (at your option) any later version.
+ *
+ * This library is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the GNU
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public
+ * License along with this library; if not, see <https://www.gnu.org/licenses/>.
+ */
+import { Hook, HookMatcher, HookMatchMode } from './types';
+
+/**
+ * The fields that say which hook an entry is. Everything else (timeout and
+ * whatever Claude adds next) is tuning the user may change.
+ */
+export const HOOK_IDENTITY_FIELDS: Record<Hook['type'], readonly string[]> = {
+  command: ['type', 'command'],
+  prompt: ['type', 'prompt']
+};
+
+export const HOOK_MATCH_MODES: readonly HookMatchMode[] = ['identity', 'exact'];
+
+/**
+ * What a hook does, in one line: its command, or its prompt. Entries read
+ * from settings files may be neither, so fall back to the type.
+ */
+export function describeHook(hook: Hook): string {
+  const text = hook.type === 'prompt' ? hook.prompt : hook.command;
+  return typeof text === 'string' ? text : `(${hook.type})`;
+}
+
+/**
+ * Whether two matcher patterns are the same. Claude runs a matcher without
+ * a pattern on everything, just like "", so the two are equal.
+ */
+export function matcherPatternsMatch(pattern: unknown, otherPattern: unknown): boolean {
+  return (pattern ?? '') === (otherPattern ?? '');
+}
+
+/**
+ * Compare two Hook objects for equality.
+ * 
+ * The first parameter is a properly typed Hook from our definition.
+ * The second parameter is raw data parsed from the JSON settings file - 
+ * we have no guarantee it matches our Hook interface, so we must validate
+ * its structure and properties defensively.
+ *
+ * In 'identity' mode (the default) only the fields that say which hook it
+ * is are compared, so a user raising our timeout doesn't hide the hook from
+ * uninstall. 'exact' requires every field to match.
+ */
+export function areHooksEqual(hook1: Hook, hook2: unknown, mode: HookMatchMode = 'identity'): boolean {
+  return hookEntriesMatch(hook1, hook2, mode);
+}
+
+/**
+ * Compare a typed HookMatcher with raw unvalidated data from settings file.
+ * 
+ * The typedMatcher comes from our codebase and is guaranteed to be valid.
+ * The untypedMatcher is raw JSON data - it could be malformed, have extra
+ * properties, missing properties, or wrong types. We defensively check
+ * each property we care about rather than assuming the structure is correct.
+ */
+export function areMatchersEqual(
+  typedMatcher: HookMatcher,
+  untypedMatcher: unknown,
+  mode: HookMatchMode = 'identity'
+): boolean {
+  if (!isJsonObject(untypedMatcher)) return false;
+  
+  // Check if matcher property matches
+  if (!matcherPatternsMatch(typedMatcher.matcher, untypedMatcher.matcher)) return false;
+  
+  // Check if hooks array exists and has same length
+  if (!Array.isArray(untypedMatcher.hooks)) return false;
+  if (typedMatcher.hooks.length !== untypedMatcher.hooks.length) return false;
+  
+  // Check each hook for equality
+  for (let i = 0; i < typedMatcher.hooks.length; i++) {
+    if (!areHooksEqual(typedMatcher.hooks[i], untypedMatcher.hooks[i], mode)) {
+      return false;
+    }
+  }
+  
+  return true;
+}
+
+/**
+ * Which hook entries of a settings matcher are ours: the entries that match
+ * one of the definition matcher's hooks, when both have the same matcher
+ * pattern. Users add their own commands next to ours, so this is usually
+ * not all of them.
+ */
+export function matchingEntryIndices(
+  definitionMatcher: HookMatcher,
+  untypedMatcher: unknown,
+  mode: HookMatchMode = 'identity'
+): number[] {
+  if (!isJsonObject(untypedMatcher)) return [];
+  if (!matcherPatternsMatch(definitionMatcher.matcher, untypedMatcher.matcher)) return [];
+  if (!Array.isArray(untypedMatcher.hooks)) return [];
+  
+  const indices: number[] = [];
+  untypedMatcher.hooks.forEach((untypedHook: unknown, index: number) => {
+    if (definitionMatcher.hooks.some(hook => areHooksEqual(hook, untypedHook, mode))) {
+      indices.push(index);
+    }
+  });
+  return indices;
+}
+
+/**
+ * Compare a hook from a definition with raw data from a settings file
+ */
+export function hookEntriesMatch(hook: Hook, untypedHook: unknown, mode: HookMatchMode): boolean {
+  if (!isJsonObject(untypedHook)) return false;
+  
+  const identityFields = HOOK_IDENTITY_FIELDS[hook.type];
+  if (mode === 'exact' || !identityFields) {
+    return isSameJsonValue(hook, untypedHook);
+  }
+  
+  return identityFields.every(field => hook[field] === untypedHook[field]);
+}
+
+/**
+ * Whether parsed JSON is an object (not an array or null), so its fields
+ * can be read one by one
+ */
+export function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return value != null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Structural equality for parsed JSON, ignoring key order
+ */
+export function isSameJsonValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a == null || b == null || typeof a !== 'object' || typeof b !== 'object') return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  
+  if (Array.isArray(a)) {
+    const other = b as unknown[];
+    return a.length === other.length && a.every((item, i) => isSameJsonValue(item, other[i]));
+  }
+  
+  // Fields explicitly set to undefined never reach the file, so they don't count
+  const aFields = a as Record<string, unknown>;
+  const bFields = b as Record<string, unknown>;
+  const aKeys = Object.keys(aFields).filter(key => aFields[key] !== undefined);
+  const bKeys = Object.keys(bFields).filter(key => bFields[key] !== undefined);
+  return aKeys.length === bKeys.length &&
+    aKeys.every(key => isSameJsonValue(aFields[key], bFields[key]));
+}
@@ -18,225 +18,391 @@
 
 import { promises as fs } from 'fs';
 import path from 'path';
-import { execSync, spawnSync } from 'child_process';
-import * as os from 'os';
 
 import * as jsonc from 'jsonc-parser';
-import chalk from './vendor/chalk';
-import prompts from 'prompts';
 
-import { removeHooksWithBinary, removeHooksWithDefinition } from 'src/uninstall-phase';
+import { areHooksEqual, areMatchersEqual, matchingEntryIndices } from 'src/hook-entry';
+import { DefinitionIdentity, Hooks, SettingsFile, SettingsFileName, SettingsScope } from 'src/types';
+import { canPrompt, confirm, DecisionOptions, DecisionRequiredError } from 'src/decision-phase';
+import { MAX_REPLANS, SettingsChangedError, withSettingsLock, writeSettingsFile, WriteResult } from 'src/atomic-write';
+import { BUILTIN_DIFF_TOOL } from 'src/diff-tools';
+import { editsBetween, PlanOptions, SettingsPlan } from 'src/text-diff';
+import { detectFormatting, keepFinalNewline } from 'src/formatting';
+import { assertParsableSettings, checkSettingsText, SettingsParseError } from 'src/settings-parse';
+import { assertValidHookDefinition } from 'src/validate';
+import {
+  AddedMatcher,
+  Ledger,
+  LEDGER_FILE,
+  readLedger,
+  recordInstalled,
+  UNNAMED_DEFINITION_ID,
+  writeLedger
+} from 'src/ledger';
+import { addToGitignore, findRepositoryRoot, hasUncommittedChanges, isIgnoredByGit } from 'src/git';
+import { displayPath } from 'src/scopes';
+import { defaultReporter, Reporter } from 'src/reporter';
 
 export interface InstallResult {
   success: boolean;
   error?: string;
   settingsPath?: string;
+  backupPath?: string;
   createdNewFile?: boolean;
   createdNewDirectory?: boolean;
+  cancelled?: boolean;
+  alreadyInstalled?: boolean;
+  /** Set when this was a dry run: what would have happened */
+  dryRun?: DryRunSummary;
+  /** One result per project, for a recursive install */
+  files?: InstallResult[];
 }
 
-export interface UninstallOptions {
+/**
+ * What a dry run found, in a shape scripts can act on
+ */
+export interface DryRunSummary {
+  operation: 'install' | 'uninstall' | 'upgrade';
+  settingsPath: string;
+  /** Whether a real run would change anything on disk */
+  changed: boolean;
+  createsDirectory: boolean;
+  createsFile: boolean;
+  addedCount: number;
+  skippedCount: number;
+  removedCount: number;
+  /** Matchers changed in place (upgrade only) */
+  replacedCount: number;
+  /** Edits against the file as it is now (empty text when it doesn't exist) */
+  edits: jsonc.Edit[];
+}
+
+/**
+ * What installing a hook definition would do to a settings file
+ */
+export interface InstallPlan extends SettingsPlan {
+  /** Matchers that will be added */
+  addedCount: number;
+  /** Matchers that are already there, or whose event we can't safely touch */
+  skippedCount: number;
+  /** Each added matcher and the path it will have, for the ledger */
+  added: AddedMatcher[];
+}
+
+export interface InstallOptions extends DecisionOptions {
+  /** Diff command template (see diff-tools.ts), or 'builtin'; dry runs default to builtin */
   diffTool?: string;
-  binaryName?: string;
+  /** Work everything out and show the diff, but create and write nothing */
+  dryRun?: boolean;
+  /** Which settings file to install into; overrides the settingsFile argument */
+  scope?: SettingsScope;
+  /** Recorded in the ledger so uninstall can find exactly these entries later */
+  definition?: DefinitionIdentity;
+  /** Edit the settings file even when it doesn't parse */
+  force?: boolean;
+  /** Install into every project below this directory that has a .claude directory */
+  recursive?: string;
 }
 
 /**
- * Install Phase: Create directories if needed, install hooks, and report results
+ * One settings file's install, worked out and waiting to be written
  */
-export async function performInstallation(
+export interface PreparedInstall {
+  settingsPath: string;
+  settingsFile: SettingsFileName;
+  /** The file as it is now ('' when it doesn't exist) */
+  currentContent: string;
+  createsFile: boolean;
+  createsDirectory: boolean;
+  plan: InstallPlan;
+  summary: DryRunSummary;
+  /** The project whose .gitignore doesn't cover settings.local.json, to offer once it's written */
+  unignoredIn?: string;
+}
+
+/**
+ * The first half of the install: read the settings file and plan the merge
+ * in memory. Nothing is created or written.
+ */
+export async function prepareInstallation(
   targetDirectory: string,
   createNewDirectory: boolean,
-  hooksToInstall: Record<string, any[]>,
-  settingsFile: 'settings.json' | 'settings.local.json' = 'settings.local.json'
-): Promise<InstallResult> {
-  console.log(`Installing hooks into project's .claude/${settingsFile}`)
+  hooksToInstall: Hooks,
+  settingsFile: SettingsFileName = 'settings.local.json',
+  options: InstallOptions = {}
+): Promise<PreparedInstall> {
+  const reporter = options.reporter ?? defaultReporter;
+  const settingsPath = path.join(targetDirectory, '.claude', settingsFile);
+  let currentContent = '';
+  let createsFile = false;
+  
+  // Check if settings file exists
   try {
-    let createdNewDirectory = false;
-    
-    // Create .claude directory if needed
-    if (createNewDirectory) {
-      const claudeDir = path.join(targetDirectory, '.claude');
-      console.log(`\nI'm creating a new .claude directory...`);
-      await fs.mkdir(claudeDir, { recursive: true });
-      console.log(chalk.green(`✓ I created: ${claudeDir}`));
-      createdNewDirectory = true;
-    }
-    
-    // Check if settings file exists
-    const settingsPath = path.join(targetDirectory, '.claude', settingsFile);
-    let createdNewFile = false;
-    
-    try {
-      await fs.stat(settingsPath);
-      console.log(chalk.gray(`\nI found an existing ${settingsFile} file`));
-      console.log(`I'll add the hooks to it...`);
-    } catch {
-      console.log(`\nI'm creating a ${settingsFile} file...`);
-      createdNewFile = true;
-    }
-    
-    // Install the hooks using the jsonc-parser based addHooks function
-    await addHooks(settingsPath, hooksToInstall);
-    
-    if (createdNewFile) {
-      console.log(chalk.green(`✓ I created: ${settingsFile}`));
+    currentContent = await fs.readFile(settingsPath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error;
     }
-    
-    return {
-      success: true,
+    createsFile = true;
+  }
+  if (!options.force) {
+    assertParsableSettings(currentContent, settingsPath);
+  }
+  
+  // Work out the new content in memory; nothing touches the disk until confirmed
+  const plan = planInstall(createsFile ? '{}' : currentContent, hooksToInstall, { force: options.force });
+  reportWarnings(plan.warnings, reporter);
+  
+  const changed = createsFile || plan.newContent !== currentContent;
+  const prepared: PreparedInstall = {
+    settingsPath,
+    settingsFile,
+    currentContent,
+    createsFile,
+    createsDirectory: createNewDirectory,
+    plan,
+    summary: {
+      operation: 'install',
       settingsPath,
-      createdNewFile,
-      createdNewDirectory
-    };
-  } catch (error) {
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : String(error)
-    };
+      changed,
+      createsDirectory: changed && createNewDirectory,
+      createsFile,
+      addedCount: plan.addedCount,
+      skippedCount: plan.skippedCount,
+      removedCount: 0,
+      replacedCount: 0,
+      edits: createsFile ? editsBetween('', plan.newContent) : plan.edits
+    }
+  };
+  
+  if (changed) {
+    prepared.unignoredIn = await checkRepositorySafety(prepared, options);
   }
+  return prepared;
 }
 
 /**
- * Report the results of the installation
+ * The second half of the install: create the .claude directory if needed,
+ * write the planned text and record the added matchers in the ledger
  */
-export function reportInstallResults(result: InstallResult, hooksInstalled: Record<string, any[]>): void {
-  if (!result.success) {
-    console.log(chalk.red(`\n✗ I couldn't complete the installation`));
-    console.log(chalk.yellow('⚠') + ` The problem was: ${result.error}`);
-    return;
-  }
+export async function writeInstallation(
+  prepared: PreparedInstall,
+  definition: DefinitionIdentity = { id: UNNAMED_DEFINITION_ID },
+  reporter: Reporter = defaultReporter
+): Promise<WriteResult> {
+  const { settingsPath, settingsFile, plan } = prepared;
+  const claudeDir = path.dirname(settingsPath);
   
-  console.log(chalk.green(`\n✓`) + ` Installation complete!`);
+  // Create .claude directory if needed
+  if (prepared.createsDirectory) {
+    await fs.mkdir(claudeDir, { recursive: true });
+    reporter.report({ type: 'directory-created', path: claudeDir });
+  }
   
-  const settingsFileName = path.basename(result.settingsPath!);
+  const written = await writeSettingsFile(settingsPath, plan.newContent, { expected: prepared.currentContent });
   
-  if (result.createdNewDirectory && result.createdNewFile) {
-    console.log(chalk.gray(`I created both the .claude directory and ${settingsFileName} file`));
-  } else if (result.createdNewFile) {
-    console.log(chalk.gray(`I created the ${settingsFileName} file`));
-  } else {
-    console.log(chalk.gray(`I updated your existing ${settingsFileName} file`));
+  if (prepared.createsFile) {
+    reporter.report({ type: 'file-created', path: settingsPath });
   }
   
-  console.log(`\nI installed these hooks:`);
-  for (const [eventName, matchers] of Object.entries(hooksInstalled)) {
-    console.log(chalk.cyan(`  ${eventName}:`));
-    if (Array.isArray(matchers)) {
-      matchers.forEach((matcher: any) => {
-        matcher.hooks.forEach((hook: any, index: number) => {
-          console.log(chalk.gray(`    ${index + 1}. ${hook.command}`));
-        });
-      });
-    }
-  }
+  await updateLedger(claudeDir, reporter, ledger => recordInstalled(ledger, definition, settingsFile, plan.added));
   
-  console.log(chalk.gray(`\nLocation: ${result.settingsPath}`));
+  return written;
 }
 
 /**
- * Find diff tool to use
+ * Install Phase: Show the change as a diff, and only after the user agrees
+ * create directories if needed and write the hooks. A dry run stops after
+ * the diff.
  */
-function findDiffTool(): string {
+export async function performInstallation(
+  targetDirectory: string,
+  createNewDirectory: boolean,
+  hooksToInstall: Hooks,
+  settingsFile: SettingsFileName = 'settings.local.json',
+  options: InstallOptions = {}
+): Promise<InstallResult> {
+  const reporter = options.reporter ?? defaultReporter;
   try {
-    execSync('which difft', { stdio: 'ignore' });
-    return 'difft';
-  } catch {
-    return 'diff';
+    assertValidHookDefinition(hooksToInstall);
+    
+    reporter.report({ type: 'installing', settingsPath: path.join(targetDirectory, '.claude', settingsFile), scope: options.scope });
+    
+    // Hold the lock from reading to writing. A dry run writes nothing, and
+    // without a .claude directory there is nowhere to put the lock yet: the
+    // expected (empty) content still catches a file created meanwhile.
+    const run = () => planAndInstall(targetDirectory, createNewDirectory, hooksToInstall, settingsFile, options);
+    return options.dryRun || createNewDirectory
+      ? await run()
+      : await withSettingsLock(path.join(targetDirectory, '.claude', settingsFile), run);
+  } catch (error) {
+    if (error instanceof DecisionRequiredError || error instanceof SettingsParseError) {
+      throw error;
+    }
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
   }
 }
 
 /**
- * Uninstall happy-coder-hooks
+ * Plan, show and confirm the install, then write it. If the file changed
+ * while the user was deciding, the plan is worked out again against what is
+ * there now and shown again, instead of overwriting the change.
  */
-export async function performUninstallation(
+async function planAndInstall(
   targetDirectory: string,
-  hooksToRemove: Record<string, any[]>,
-  options: UninstallOptions = {}
+  createNewDirectory: boolean,
+  hooksToInstall: Hooks,
+  settingsFile: SettingsFileName,
+  options: InstallOptions
 ): Promise<InstallResult> {
-  try {
-    const settingsPath = path.join(targetDirectory, '.claude', 'settings.local.json');
+  const reporter = options.reporter ?? defaultReporter;
+  
+  for (let attempt = 1; ; attempt++) {
+    const prepared = await prepareInstallation(targetDirectory, createNewDirectory, hooksToInstall, settingsFile, options);
+    const { settingsPath, currentContent, createsFile, plan: result, summary } = prepared;
+    reporter.report({ type: 'settings-read', path: settingsPath, exists: !createsFile });
     
-    // Check if settings file exists
-    try {
-      await fs.stat(settingsPath);
-    } catch {
-      console.log('No settings.local.json file found.');
+    if (!summary.changed) {
+      reporter.report({ type: 'already-installed', path: settingsPath });
+      if (options.dryRun) {
+        reporter.report({ type: 'dry-run-finished', summary });
+      }
       return {
         success: true,
-        settingsPath
+        settingsPath,
+        createdNewFile: false,
+        createdNewDirectory: false,
+        alreadyInstalled: true,
+        ...(options.dryRun && { dryRun: summary })
       };
     }
     
-    const binaryName = options.binaryName || 'hooks';
-    console.log(chalk.blue(`Uninstalling ${binaryName}...`));
-    
-    // Read current settings
-    const currentContent = await fs.readFile(settingsPath, 'utf-8');
-    
-    // Remove hooks and get the result
-    const result = await removeHooksWithDefinition(settingsPath, hooksToRemove);
+    reporter.report({
+      type: 'diff',
+      path: settingsPath,
+      before: currentContent,
+      after: result.newContent,
+      diffTool: options.diffTool ?? (options.dryRun ? BUILTIN_DIFF_TOOL : undefined)
+    });
     
-    if (result.removedCount === 0) {
-      console.log(`No matching ${binaryName} found to uninstall.`);
+    if (options.dryRun) {
+      reporter.report({ type: 'dry-run-finished', summary });
       return {
         success: true,
-        settingsPath
+        settingsPath,
+        createdNewFile: createsFile,
+        createdNewDirectory: createNewDirectory,
+        dryRun: summary
       };
     }
     
-    // Create temp directory and write new settings
-    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'happy-coder-hooks-'));
-    const tempSettingsPath = path.join(tempDir, 'settings.local.json');
-    await fs.writeFile(tempSettingsPath, result.newContent);
+    const confirmed = await confirm(
+      `Add ${result.addedCount} hook ${result.addedCount === 1 ? 'matcher' : 'matchers'} to ${settingsFile}?`,
+      true,
+      options
+    );
     
-    // Show diff
-    const diffTool = options.diffTool || findDiffTool();
-    console.log(chalk.blue(`\nShowing diff (${diffTool}):\n`));
+    if (!confirmed) {
+      reporter.report({ type: 'cancelled', operation: 'install', stage: 'confirmation' });
+      return {
+        success: false,
+        cancelled: true,
+        error: 'Installation cancelled by user'
+      };
+    }
     
+    let installed: InstallResult;
     try {
-      if (diffTool === 'difft') {
-        spawnSync(diffTool, [settingsPath, tempSettingsPath], { stdio: 'inherit' });
-      } else {
-        spawnSync(diffTool, ['-u', settingsPath, tempSettingsPath], { stdio: 'inherit' });
-      }
+      const written = await writeInstallation(prepared, options.definition, reporter);
+      installed = {
+        success: true,
+        settingsPath,
+        backupPath: written.backupPath,
+        createdNewFile: createsFile,
+        createdNewDirectory: createNewDirectory
+      };
     } catch (error) {
-      console.error(chalk.red(`Error running diff tool: ${error}`));
-      console.log(chalk.gray('\nCurrent settings:'));
-      console.log(currentContent);
-      console.log(chalk.gray('\nNew settings:'));
-      console.log(result.newContent);
+      if (!(error instanceof SettingsChangedError) || attempt === MAX_REPLANS) {
+        throw error;
+      }
+      reporter.report({ type: 'settings-changed', path: settingsPath });
+      continue;
     }
     
-    // Ask for confirmation using prompts
-    const response = await prompts({
-      type: 'confirm',
-      name: 'confirmed',
-      message: `Remove ${result.removedCount} ${binaryName} entries?`,
-      initial: true
-    });
-    
-    if (response.confirmed) {
-      await fs.writeFile(settingsPath, result.newContent);
-      console.log(chalk.green(`\n✅ Uninstalled ${result.removedCount} ${binaryName} entries.`));
-    } else {
-      console.log('\nUninstall cancelled.');
+    // The install is done whatever happens to .gitignore
+    await offerToIgnore(prepared, options);
+    return installed;
+  }
+}
+
+/**
+ * Warn about git trouble before writing: a settings.local.json that isn't
+ * ignored, or a settings.json with uncommitted changes. Returns the project
+ * directory whose .gitignore we may offer to add the file to, once the
+ * install itself is written.
+ */
+async function checkRepositorySafety(prepared: PreparedInstall, options: InstallOptions): Promise<string | undefined> {
+  const reporter = options.reporter ?? defaultReporter;
+  const projectDirectory = path.dirname(path.dirname(prepared.settingsPath));
+  const repositoryRoot = options.scope === 'user' ? undefined : await findRepositoryRoot(projectDirectory);
+  if (!repositoryRoot) {
+    return undefined;
+  }
+  
+  if (prepared.settingsFile === 'settings.local.json') {
+    if (await isIgnoredByGit(prepared.settingsPath, repositoryRoot)) {
+      return undefined;
+    }
+    reporter.report({ type: 'settings-not-ignored', path: prepared.settingsPath, repositoryRoot });
+    return projectDirectory;
+  } else if (!prepared.createsFile && hasUncommittedChanges(prepared.settingsPath, repositoryRoot)) {
+    reporter.report({ type: 'uncommitted-changes', path: prepared.settingsPath });
+  }
+  return undefined;
+}
+
+/**
+ * After a written install, offer to add settings.local.json to the
+ * project's .gitignore. Only ever asked: --yes and runs without a terminal
+ * leave .gitignore alone, since the warning already told the user. The
+ * install has succeeded by now, so a failure here is only a warning.
+ */
+export async function offerToIgnore(prepared: PreparedInstall, options: InstallOptions): Promise<void> {
+  const reporter = options.reporter ?? defaultReporter;
+  const projectDirectory = prepared.unignoredIn;
+  if (!projectDirectory || !canPrompt(options)) {
+    return;
+  }
+  
+  const entry = `.claude/${prepared.settingsFile}`;
+  try {
+    const addEntry = await confirm(`Should I add ${entry} to ${path.join(displayPath(projectDirectory), '.gitignore')}?`, true, options);
+    if (addEntry) {
+      const gitignorePath = await addToGitignore(projectDirectory, entry);
+      reporter.report({ type: 'gitignore-updated', path: gitignorePath, entry });
     }
-    
-    // Clean up temp directory
-    await fs.rm(tempDir, { recursive: true });
-    
-    return {
-      success: true,
-      settingsPath
-    };
   } catch (error) {
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : String(error)
-    };
+    reporter.report({
+      type: 'warning',
+      message: `I couldn't add ${entry} to .gitignore: ${error instanceof Error ? error.message : String(error)}`
+    });
   }
 }
 
+/**
+ * Report the results of the installation
+ */
+export function reportInstallResults(
+  result: InstallResult,
+  hooksInstalled: Hooks,
+  reporter: Reporter = defaultReporter
+): void {
+  reporter.report({ type: 'install-result', result, hooks: hooksInstalled });
+}
+
 /**
  * Add hooks to a settings file, preserving formatting and comments for existing files
  * 
@@ -264,74 +430,196 @@ export async function performUninstallation(
  */
 export async function addHooks(
   settingsPath: string,
-  hooks: Record<string, any[]>
-): Promise<void> {
-  console.log(`Adding hooks to: ${settingsPath}`);
+  hooks: Hooks,
+  reporter: Reporter = defaultReporter,
+  options: PlanOptions = {}
+): Promise<{ addedCount: number; skippedCount: number; }> {
+  assertValidHookDefinition(hooks);
 
+  let content: string;
+  let exists = true;
+  try {
+    content = await fs.readFile(settingsPath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error;
+    }
+    // File doesn't exist, create new one
+    content = '{}';
+    exists = false;
+  }
+  reporter.report({ type: 'settings-read', path: settingsPath, exists });
+  if (!options.force) {
+    assertParsableSettings(content, settingsPath);
+  }
 
+  const result = planInstall(content, hooks, options);
+  reportWarnings(result.warnings, reporter);
 
-  
-  try {
-    // Try to read existing file
-    let content = await fs.readFile(settingsPath, 'utf-8');
-    const errors: jsonc.ParseError[] = [];
+  if (result.newContent !== content) {
+    await writeSettingsFile(settingsPath, result.newContent);
+  }
 
-    interface SettingsFile {
-      hooks?: Record<string, any[]>;
-      [key: string]: any;
-    }
+  reporter.report({ type: 'hooks-added', path: settingsPath, addedCount: result.addedCount, skippedCount: result.skippedCount });
 
-    const existingData = jsonc.parse(content, errors) as SettingsFile;
-    
-    if (errors.length > 0) {
-      console.warn(chalk.yellow('⚠') + ` JSON parsing errors:`);
-      errors.forEach(error => {
-        console.warn(`  - Parse error at offset ${error.offset}`);
-      });
+  return { addedCount: result.addedCount, skippedCount: result.skippedCount };
+}
+
+/**
+ * Merge our hook matchers into the text of a settings file.
+ *
+ * Each matcher is appended to the end of its event array. Matchers that are
+ * already present (same equality rules uninstall uses) are skipped, so
+ * installing twice changes nothing. We never replace an existing array,
+ * because other tools and the human put their own matchers there too.
+ *
+ * Pure: no files, no prompts, no output. Everything addHooks and
+ * performInstallation do to the file is decided here. Text that doesn't
+ * parse stops the plan with a SettingsParseError, unless forced.
+ */
+export function planInstall(content: string, hooks: Hooks, options: PlanOptions = {}): InstallPlan {
+  const formattingOptions = detectFormatting(content);
+  const warnings = checkSettingsText(content, options.force);
+  const existingData = (jsonc.parse(content) ?? {}) as SettingsFile;
+
+  let workingContent = content;
+  let skippedCount = 0;
+  const added: AddedMatcher[] = [];
+
+  // If hooks don't exist, create the hooks object first
+  if (!existingData.hooks) {
+    const hooksEdits = jsonc.modify(workingContent, ['hooks'], {}, { formattingOptions });
+    workingContent = jsonc.applyEdits(workingContent, hooksEdits);
+  }
+
+  for (const [eventName, matchers] of Object.entries(hooks)) {
+    const existingMatchers = existingData.hooks?.[eventName];
+
+    // No array for this event yet, so the whole definition goes in as-is
+    if (existingMatchers === undefined) {
+      const edits = jsonc.modify(workingContent, ['hooks', eventName], matchers, { formattingOptions });
+      workingContent = jsonc.applyEdits(workingContent, edits);
+      matchers.forEach((matcher, index) => added.push({ path: ['hooks', eventName, index], matcher }));
+      continue;
     }
-    
-    console.log(chalk.gray(`Found existing settings file`));
-    
-    // If hooks don't exist, create the hooks object first
-    if (!existingData.hooks) {
-      const hooksEdits = jsonc.modify(content, ['hooks'], {}, {
-        formattingOptions: { tabSize: 2, insertSpaces: true, eol: '\n' }
-      });
-      content = jsonc.applyEdits(content, hooksEdits);
+
+    if (!Array.isArray(existingMatchers)) {
+      warnings.push(`hooks.${eventName} is not an array, so I left it alone`);
+      skippedCount += matchers.length;
+      continue;
     }
-    
-    // Now add each hook type using jsonc.modify
-    for (const [hookType, hookConfig] of Object.entries(hooks)) {
-      const edits = jsonc.modify(content, ['hooks', hookType], hookConfig, {
-        formattingOptions: { tabSize: 2, insertSpaces: true, eol: '\n' }
-      });
-      content = jsonc.applyEdits(content, edits);
+
+    let nextIndex = existingMatchers.length;
+    for (const matcher of matchers) {
+      if (existingMatchers.some(existing => areMatchersEqual(matcher, existing))) {
+        skippedCount++;
+        continue;
+      }
+
+      // Some of our entries may already sit in a matcher the user added their
+      // own commands to; only the ones that aren't anywhere yet go in
+      const present = new Set(existingMatchers.flatMap(existing =>
+        matchingEntryIndices(matcher, existing).map(index => existing.hooks[index])));
+      const missing = matcher.hooks.filter(hook =>
+        ![...present].some(existingHook => areHooksEqual(hook, existingHook)));
+      if (missing.length === 0) {
+        skippedCount++;
+        continue;
+      }
+
+      const toAdd = missing.length === matcher.hooks.length ? matcher : { ...matcher, hooks: missing };
+      workingContent = appendArrayElement(workingContent, ['hooks', eventName], toAdd, formattingOptions);
+      added.push({ path: ['hooks', eventName, nextIndex++], matcher: toAdd });
     }
-    
-    await fs.writeFile(settingsPath, content, 'utf-8');
+  }
+
+  if (workingContent !== content) {
+    workingContent = keepFinalNewline(workingContent, formattingOptions);
+  }
+
+  return {
+    newContent: workingContent,
+    edits: editsBetween(content, workingContent),
+    addedCount: added.length,
+    skippedCount,
+    added,
+    warnings
+  };
+}
+
+/**
+ * Apply a change to the ledger of a .claude directory. The settings file is
+ * already written by the time we get here, so a ledger we can't update is
+ * a warning rather than a failed install: uninstall falls back to matching
+ * by content.
+ */
+export async function updateLedger(
+  claudeDir: string,
+  reporter: Reporter,
+  change: (ledger: Ledger) => Ledger
+): Promise<void> {
+  try {
+    await writeLedger(claudeDir, change(await readLedger(claudeDir)));
   } catch (error) {
-    // File doesn't exist, create new one
-    console.log(chalk.gray(`Creating new settings file`));
-    let content = '{}';
-    
-    // Add hooks object
-    const hooksEdits = jsonc.modify(content, ['hooks'], {}, {
-      formattingOptions: { tabSize: 2, insertSpaces: true, eol: '\n' }
+    reporter.report({
+      type: 'warning',
+      message: `I couldn't update ${LEDGER_FILE}: ${error instanceof Error ? error.message : String(error)}`
     });
-    content = jsonc.applyEdits(content, hooksEdits);
-    
-    // Add each hook type
-    for (const [hookType, hookConfig] of Object.entries(hooks)) {
-      const edits = jsonc.modify(content, ['hooks', hookType], hookConfig, {
-        formattingOptions: { tabSize: 2, insertSpaces: true, eol: '\n' }
-      });
-      content = jsonc.applyEdits(content, edits);
-    }
-    
-    await fs.writeFile(settingsPath, content, 'utf-8');
   }
-  
-  // Report what was added
-  const hookTypes = Object.keys(hooks);
-  console.log(chalk.green(`✓ Added ${hookTypes.length} hook type(s): ${hookTypes.join(', ')}`));
+}
+
+/**
+ * Whether two JSON paths point at the same place
+ */
+export function samePath(a: jsonc.JSONPath, b: jsonc.JSONPath): boolean {
+  return a.length === b.length && a.every((segment, i) => segment === b[i]);
+}
+
+/**
+ * Pass problems found while editing on to the reporter
+ */
+export function reportWarnings(warnings: string[], reporter: Reporter): void {
+  for (const message of warnings) {
+    reporter.report({ type: 'warning', message });
+  }
+}
+
+/**
+ * Append a value to the end of an existing JSON array.
+ *
+ * jsonc.modify reformats every line an edit touches, which includes the line
+ * holding the previous element. That element belongs to someone else, so we
+ * write the insertion ourselves: a comma right after the last element, then
+ * our value indented to match it. Nothing before the insertion point changes.
+ */
+function appendArrayElement(
+  content: string,
+  arrayPath: jsonc.JSONPath,
+  value: unknown,
+  formattingOptions: jsonc.FormattingOptions
+): string {
+  const root = jsonc.parseTree(content);
+  const arrayNode = root && jsonc.findNodeAtLocation(root, arrayPath);
+  const lastElement = arrayNode?.children?.[arrayNode.children.length - 1];
+
+  if (!lastElement) {
+    // Empty array: there is no neighbour to disturb
+    const edits = jsonc.modify(content, [...arrayPath, -1], value, { formattingOptions, isArrayInsertion: true });
+    return jsonc.applyEdits(content, edits);
+  }
+
+  const eol = formattingOptions.eol ?? '\n';
+  const indentUnit = formattingOptions.insertSpaces ? ' '.repeat(formattingOptions.tabSize ?? 2) : '\t';
+
+  // Line up with the previous element when it starts its own line,
+  // otherwise indent one level past the line it shares
+  const lineStart = content.lastIndexOf('\n', lastElement.offset - 1) + 1;
+  const linePrefix = content.slice(lineStart, lastElement.offset);
+  const lineIndent = linePrefix.match(/^[ \t]*/)![0];
+  const indent = linePrefix === lineIndent ? lineIndent : lineIndent + indentUnit;
+
+  const serialized = JSON.stringify(value, null, indentUnit).split('\n').join(eol + indent);
+  const insertAt = lastElement.offset + lastElement.length;
+
+  return content.slice(0, insertAt) + ',' + eol + indent + serialized + content.slice(insertAt);
 }
@@ -0,0 +1,296 @@
+/*
+ * CLI tool for managing Claude Code hooks
+ * Copyright (C) 2025  Peoples Grocers LLC
+ *
+ * This library is free software; you can redistribute it and/or
+ * modify it under the terms of the GNU Lesser General Public
+ * License as published by the Free Software Foundation; either
+ * version 2.1 of the License, or (at your option) any later version.
+ *
+ * This library is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the GNU
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public
+ * License along with this library; if not, see <https://www.gnu.org/licenses/>.
+ */
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+import * as jsonc from 'jsonc-parser';
+
+import { ensureIgnoredDirectory, writeSettingsFile } from './atomic-write';
+import { DefinitionIdentity, Hook, HookMatcher, SettingsFileName } from './types';
+import { hookEntriesMatch, isJsonObject } from './hook-entry';
+
+/**
+ * Directory in .claude holding the ledger. It ignores itself in git, like
+ * the backups: the ledger records settings.local.json too, which is private.
+ */
+export const LEDGER_DIRECTORY = '.cchooks-ledger';
+
+/**
+ * The ledger recording what we installed, relative to the .claude directory
+ */
+export const LEDGER_FILE = path.join(LEDGER_DIRECTORY, 'ledger.json');
+
+// Where the ledger used to live, straight in .claude and not ignored
+const LEGACY_LEDGER_FILE = '.cchooks-ledger.json';
+
+/**
+ * Recorded for library callers that install hooks without naming them
+ */
+export const UNNAMED_DEFINITION_ID = 'unnamed';
+
+/**
+ * One matcher we added to a settings file
+ */
+export interface LedgerEntry {
+  definition: DefinitionIdentity;
+  settingsFile: SettingsFileName;
+  /** Where we put it, e.g. ["hooks", "PreToolUse", 2] */
+  path: jsonc.JSONPath;
+  /** hashMatcher() of the matcher exactly as we wrote it */
+  hash: string;
+  /** Its hook entries as we wrote them, to tell our edited matcher from someone else's */
+  hooks?: Hook[];
+  installedAt: string;
+}
+
+export interface Ledger {
+  version: 1;
+  entries: LedgerEntry[];
+}
+
+/**
+ * A matcher planInstall added, and where
+ */
+export interface AddedMatcher {
+  path: jsonc.JSONPath;
+  matcher: HookMatcher;
+}
+
+/**
+ * Where a ledger entry stands in the settings file today:
+ * - unmodified: a matcher with the recorded hash is still there
+ * - modified:   where we put it there's a matcher still holding one of our
+ *               hook entries; the user edited ours
+ * - missing:    it's gone, nothing to remove
+ */
+export interface LocatedEntry {
+  entry: LedgerEntry;
+  status: 'unmodified' | 'modified' | 'missing';
+  /** Where it is now (unmodified and modified only) */
+  path?: jsonc.JSONPath;
+  /** What's there now (unmodified and modified only) */
+  current?: unknown;
+}
+
+export function ledgerPath(claudeDirectory: string): string {
+  return path.join(claudeDirectory, LEDGER_FILE);
+}
+
+/**
+ * Read the ledger of a .claude directory. A missing or unreadable ledger is
+ * an empty one: uninstall then falls back to matching by content. A ledger
+ * written where older versions kept it is still read.
+ */
+export async function readLedger(claudeDirectory: string): Promise<Ledger> {
+  let content: string | undefined;
+  for (const file of [ledgerPath(claudeDirectory), path.join(claudeDirectory, LEGACY_LEDGER_FILE)]) {
+    try {
+      content = await fs.readFile(file, 'utf-8');
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+  if (content === undefined) {
+    return { version: 1, entries: [] };
+  }
+  
+  const value = jsonc.parse(content);
+  if (value == null || typeof value !== 'object' || !Array.isArray(value.entries)) {
+    return { version: 1, entries: [] };
+  }
+  return { version: 1, entries: value.entries };
+}
+
+/**
+ * Save the ledger, or remove it once it has nothing left to remember.
+ * Either way a ledger where older versions kept it is moved out of the way.
+ */
+export async function writeLedger(claudeDirectory: string, ledger: Ledger): Promise<void> {
+  if (ledger.entries.length === 0) {
+    await fs.rm(path.join(claudeDirectory, LEDGER_DIRECTORY), { recursive: true, force: true });
+  } else {
+    await ensureIgnoredDirectory(path.join(claudeDirectory, LEDGER_DIRECTORY));
+    await writeSettingsFile(ledgerPath(claudeDirectory), JSON.stringify(ledger, null, 2) + '\n', { backup: false });
+  }
+  await fs.rm(path.join(claudeDirectory, LEGACY_LEDGER_FILE), { force: true });
+}
+
+/**
+ * Stable hash of a matcher's JSON value. Key order doesn't matter, so
+ * reformatting the file or reordering fields doesn't count as a change.
+ */
+export function hashMatcher(value: unknown): string {
+  return createHash('sha256').update(canonicalJson(value)).digest('hex').slice(0, 16);
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (isJsonObject(value)) {
+    const keys = Object.keys(value).filter(key => value[key] !== undefined).sort();
+    return `{${keys.map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * The ledger after an install added these matchers
+ */
+export function recordInstalled(
+  ledger: Ledger,
+  definition: DefinitionIdentity,
+  settingsFile: SettingsFileName,
+  added: AddedMatcher[],
+  installedAt: Date = new Date()
+): Ledger {
+  return {
+    version: 1,
+    entries: [
+      ...ledger.entries,
+      ...added.map(({ path: matcherPath, matcher }) => ({
+        definition,
+        settingsFile,
+        path: matcherPath,
+        hash: hashMatcher(matcher),
+        hooks: matcher.hooks,
+        installedAt: installedAt.toISOString()
+      }))
+    ]
+  };
+}
+
+/**
+ * The ledger after an uninstall: the removed entries are forgotten, and the
+ * rest of the same settings file are re-pointed at where they are now,
+ * since removing matchers shifts the ones after them
+ */
+export function recordUninstalled(
+  ledger: Ledger,
+  settingsFile: SettingsFileName,
+  removed: LedgerEntry[],
+  newContent: string
+): Ledger {
+  // Compared by content: the ledger may have been read again since the entries were located
+  const removedKeys = new Set(removed.map(canonicalJson));
+  const remaining = ledger.entries.filter(entry => !removedKeys.has(canonicalJson(entry)));
+  const relocated = new Map(
+    locateEntries(newContent, remaining.filter(entry => entry.settingsFile === settingsFile))
+      .filter(located => located.status === 'unmodified')
+      .map(located => [located.entry, located.path!])
+  );
+  
+  return {
+    version: 1,
+    entries: remaining.map(entry => relocated.has(entry) ? { ...entry, path: relocated.get(entry)! } : entry)
+  };
+}
+
+/**
+ * Find our ledger entries in the current settings text.
+ *
+ * First every entry looks for a matcher with its hash in its event array
+ * (preferring the recorded position, since other tools may have shifted
+ * things around). Entries that don't find one fall back to the matcher at
+ * their recorded position, as long as no other entry claimed it and it
+ * still holds one of our hook entries: that's our matcher with the user's
+ * edits in it. Anything else there is someone else's, and ours is missing.
+ * Pure, no I/O.
+ */
+export function locateEntries(content: string, entries: LedgerEntry[]): LocatedEntry[] {
+  const settings = jsonc.parse(content) as { hooks?: Record<string, unknown> } | undefined;
+  const claimed = new Set<string>();
+  const located = new Map<LedgerEntry, LocatedEntry>();
+  
+  const matchersAt = (entry: LedgerEntry): unknown[] => {
+    const matchers = settings?.hooks?.[entry.path[1] as string];
+    return Array.isArray(matchers) ? matchers : [];
+  };
+  const claim = (entry: LedgerEntry, index: number, status: 'unmodified' | 'modified') => {
+    const [, eventName] = entry.path;
+    claimed.add(`${eventName}\u0000${index}`);
+    located.set(entry, { entry, status, path: ['hooks', eventName, index], current: matchersAt(entry)[index] });
+  };
+  const isClaimed = (entry: LedgerEntry, index: number) => claimed.has(`${entry.path[1]}\u0000${index}`);
+  
+  for (const entry of entries) {
+    const matchers = matchersAt(entry);
+    const recordedIndex = entry.path[2] as number;
+    const candidates = [recordedIndex, ...matchers.keys()];
+    const index = candidates.find(i =>
+      i < matchers.length && !isClaimed(entry, i) && hashMatcher(matchers[i]) === entry.hash
+    );
+    if (index !== undefined) {
+      claim(entry, index, 'unmodified');
+    }
+  }
+  
+  for (const entry of entries) {
+    if (located.has(entry)) continue;
+    
+    const matchers = matchersAt(entry);
+    const recordedIndex = entry.path[2] as number;
+    const current = matchers[recordedIndex];
+    if (!isClaimed(entry, recordedIndex) && holdsOurHooks(entry, current)) {
+      claim(entry, recordedIndex, 'modified');
+    } else {
+      located.set(entry, { entry, status: 'missing' });
+    }
+  }
+  
+  return entries.map(entry => located.get(entry)!);
+}
+
+/**
+ * Whether a matcher still has at least one of the hook entries we wrote
+ * into it. Entries recorded before we kept their hooks can't tell, so they
+ * never claim a matcher they don't hash to.
+ */
+function holdsOurHooks(entry: LedgerEntry, current: unknown): boolean {
+  const hooks = (current as { hooks?: unknown } | null)?.hooks;
+  if (!Array.isArray(hooks) || !Array.isArray(entry.hooks)) {
+    return false;
+  }
+  return entry.hooks.some(ours => hooks.some(hook => hookEntriesMatch(ours, hook, 'identity')));
+}
+
+/**
+ * The hook entries in an edited matcher that are still the ones we wrote,
+ * as paths into the settings file. Whatever the user added beside them
+ * isn't listed, so removing these leaves the user's own commands alone.
+ */
+export function ourEntryPaths(located: LocatedEntry): jsonc.JSONPath[] {
+  const hooks = (located.current as { hooks?: unknown } | null)?.hooks;
+  if (!located.path || !Array.isArray(hooks) || !Array.isArray(located.entry.hooks)) {
+    return [];
+  }
+  
+  // Each recorded entry accounts for one entry in the file, even if the user duplicated it
+  const taken = new Set<number>();
+  for (const ours of located.entry.hooks) {
+    const index = hooks.findIndex((hook, i) => !taken.has(i) && hookEntriesMatch(ours, hook, 'identity'));
+    if (index !== -1) {
+      taken.add(index);
+    }
+  }
+  return [...taken].sort((a, b) => a - b).map(index => [...located.path!, 'hooks', index]);
+}
@@ -18,13 +18,52 @@
 
 // Library exports for using this as a reusable hook management library
 export { installHooks } from './commands/install';
-export { uninstallHooks } from './commands/uninstall';
-export { performInstallation, performUninstallation, reportInstallResults, addHooks } from './install-phase';
-export { removeHooksWithBinary, removeHooksWithDefinition } from './uninstall-phase';
-export { discoverClaudeDirectories } from './discovery-phase';
-export { makeInstallDecision } from './decision-phase';
+export { uninstallHooks, uninstallBinary } from './commands/uninstall';
+export { upgradeHooks } from './commands/upgrade';
+export { performInstallation, prepareInstallation, writeInstallation, reportInstallResults, addHooks, planInstall } from './install-phase';
+export { performUninstallation, prepareUninstallation, writeUninstallation, reportUninstallResults, scanSettingsFiles, findUninstallMatches, findStrategyMatches } from './uninstall-phase';
+export { removeHooksWithBinary, removeHooksWithDefinition, planUninstall, planBinaryUninstall, findBinaryMatches } from './uninstall-phase';
+export { performUpgrade, planUpgrade } from './upgrade-phase';
+export { installRecursively, uninstallRecursively } from './recursive-phase';
+export { HOOK_IDENTITY_FIELDS, HOOK_MATCH_MODES, describeHook, areHooksEqual, areMatchersEqual } from './hook-entry';
+export { discoverClaudeDirectories, findSettingsFiles, findClaudeDirectoriesBelow } from './discovery-phase';
+export { parseGitignore, isIgnored } from './gitignore';
+export { findRepositoryRoot, isInsideDirectory, isIgnoredByGit, hasUncommittedChanges, addToGitignore } from './git';
+export { listEffectiveHooks } from './list-phase';
+export { listHooks } from './commands/list';
+export { diagnoseHooks } from './doctor-phase';
+export { runDoctor } from './commands/doctor';
+export { CLAUDE_CODE_EVENTS, MATCHER_EVENTS, isClaudeCodeEvent, eventTakesMatcher } from './events';
+export { makeInstallDecision, makeTargetDecision, confirm, chooseMany, DecisionRequiredError, EXIT_DECISION_REQUIRED } from './decision-phase';
+export { loadHookDefinition } from './definition';
+export { validateHookDefinition, assertValidHookDefinition, HookDefinitionError } from './validate';
+export { writeSettingsFile, withSettingsLock, lockSettingsFile, SettingsChangedError, SettingsLockedError } from './atomic-write';
+export { parseCommand, tokenizeCommand, programName, commandRunsProgram } from './command-parser';
+export { detectFormatting } from './formatting';
+export { SettingsParseError, findParseProblems, codeFrame } from './settings-parse';
+export { LEDGER_DIRECTORY, LEDGER_FILE, readLedger, locateEntries, hashMatcher } from './ledger';
+export { unifiedDiff } from './text-diff';
+export { DIFF_TOOL_ENV, BUILTIN_DIFF_TOOL, detectDiffTool, resolveDiffTool, formatBuiltinDiff, showDiff, showDiffs } from './diff-tools';
+export { SETTINGS_SCOPES, settingsFileForScope, resolveSettingsPath, describeScope, displayPath } from './scopes';
+export { createPrettyReporter, createJsonLinesReporter, silentReporter, defaultReporter } from './reporter';
 
 // Export types
-export type { InstallResult, UninstallOptions } from './install-phase';
-export type { UninstallResult } from './uninstall-phase';
-export type { Hook, HookMatcher, Hooks, ClaudeSettings, DirectoryInfo } from './types';
\ No newline at end of file
+export type { InstallResult, InstallOptions, InstallPlan, PreparedInstall, DryRunSummary } from './install-phase';
+export type { UpgradeOptions, UpgradePlan } from './upgrade-phase';
+export type { RecursiveOptions, RecursiveResult, ProjectResult } from './recursive-phase';
+export type { DecisionOptions, DecisionResult } from './decision-phase';
+export type { UninstallResult, UninstallPlan, PreparedUninstall, UninstallOptions, UninstallStrategy, UninstallMatches, SettingsFileMatches } from './uninstall-phase';
+export type { SettingsPlan, PlanOptions } from './text-diff';
+export type { SettingsParseProblem } from './settings-parse';
+export type { DetectedFormatting } from './formatting';
+export type { WriteOptions, WriteResult } from './atomic-write';
+export type { ParsedCommand } from './command-parser';
+export type { Reporter, ReporterEvent } from './reporter';
+export type { SettingsFileLocation } from './discovery-phase';
+export type { IgnoreRule } from './gitignore';
+export type { HookListing, HookSource, ListedHook } from './list-phase';
+export type { DoctorCheck, DoctorFinding, DoctorReport } from './doctor-phase';
+export type { ClaudeCodeEvent } from './events';
+export type { DefinitionProblem } from './validate';
+export type { Ledger, LedgerEntry, LocatedEntry } from './ledger';
+export type { DefinitionIdentity, DefinitionVersion, HookDefinition, Hook, CommandHook, PromptHook, HookMatchMode, HookMatcher, Hooks, ClaudeSettings, SettingsFile, DirectoryInfo, SettingsScope, SettingsFileName } from './types';
\ No newline at end of file
@@ -0,0 +1,143 @@
+/*
+ * CLI tool for managing Claude Code hooks
+ * Copyright (C) 2025  Peoples Grocers LLC
+ *
+ * This library is free software; you can redistribute it and/or
+ * modify it under the terms of the GNU Lesser General Public
+ * License as published by the Free Software Foundation; either
+ * version 2.1 of the License, or (at your option) any later version.
+ *
+ * This library is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the GNU
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public
+ * License along with this library; if not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { promises as fs } from 'fs';
+
+import * as jsonc from 'jsonc-parser';
+
+import { findSettingsFiles, SettingsFileLocation } from './discovery-phase';
+import { areHooksEqual } from './hook-entry';
+import { Hook, Hooks, SettingsScope } from './types';
+import { positionAt } from './text-position';
+
+/**
+ * A settings file we looked at while listing hooks
+ */
+export interface HookSource extends SettingsFileLocation {
+  /** Parse errors in the file; hooks are still listed from what could be read */
+  parseErrorCount: number;
+}
+
+/**
+ * One hook entry as it appears in a settings file
+ */
+export interface ListedHook {
+  eventName: string;
+  matcher: string;
+  hook: Hook;
+  scope: SettingsScope;
+  sourcePath: string;
+  /** 1-based line of the hook entry in its source file */
+  line: number;
+  /** Name of the known definition this entry matches, if any */
+  definitionName?: string;
+}
+
+export interface HookListing {
+  sources: HookSource[];
+  hooks: ListedHook[];
+}
+
+/**
+ * Collect every hook from every settings file that applies to a directory,
+ * with where each one came from.
+ *
+ * Settings files are hand-edited, so nothing here assumes they match our
+ * types: entries that aren't objects are skipped, and missing fields are
+ * reported as empty strings rather than crashing the listing.
+ *
+ * @param knownDefinitions - Named definitions to recognise, e.g. { 'happy-coder-hooks': HOOKS }
+ * @param startDirectory - Directory whose ancestors are searched for .claude
+ */
+export async function listEffectiveHooks(
+  knownDefinitions: Record<string, Hooks> = {},
+  startDirectory: string = process.cwd()
+): Promise<HookListing> {
+  const locations = await findSettingsFiles(startDirectory);
+  const sources: HookSource[] = [];
+  const hooks: ListedHook[] = [];
+  
+  for (const location of locations) {
+    if (!location.exists) {
+      sources.push({ ...location, parseErrorCount: 0 });
+      continue;
+    }
+    
+    const content = await fs.readFile(location.path, 'utf-8');
+    const errors: jsonc.ParseError[] = [];
+    const root = jsonc.parseTree(content, errors, { allowTrailingComma: true });
+    sources.push({ ...location, parseErrorCount: errors.length });
+    
+    const hooksNode = root && jsonc.findNodeAtLocation(root, ['hooks']);
+    if (!hooksNode || hooksNode.type !== 'object') continue;
+    
+    for (const property of hooksNode.children ?? []) {
+      const [keyNode, matchersNode] = property.children ?? [];
+      if (!keyNode || !matchersNode || matchersNode.type !== 'array') continue;
+      const eventName = String(keyNode.value);
+      
+      for (const matcherNode of matchersNode.children ?? []) {
+        if (matcherNode.type !== 'object') continue;
+        
+        const matcherValueNode = jsonc.findNodeAtLocation(matcherNode, ['matcher']);
+        const matcher = typeof matcherValueNode?.value === 'string' ? matcherValueNode.value : '';
+        const hookNodes = jsonc.findNodeAtLocation(matcherNode, ['hooks']);
+        if (!hookNodes || hookNodes.type !== 'array') continue;
+        
+        for (const hookNode of hookNodes.children ?? []) {
+          if (hookNode.type !== 'object') continue;
+          
+          const hook = jsonc.getNodeValue(hookNode) as Hook;
+          hooks.push({
+            eventName,
+            matcher,
+            hook,
+            scope: location.scope,
+            sourcePath: location.path,
+            line: positionAt(content, hookNode.offset).line,
+            definitionName: findDefinitionName(knownDefinitions, eventName, matcher, hook)
+          });
+        }
+      }
+    }
+  }
+  
+  return { sources, hooks };
+}
+
+/**
+ * Find which known definition, if any, contains this exact hook entry
+ */
+function findDefinitionName(
+  knownDefinitions: Record<string, Hooks>,
+  eventName: string,
+  matcher: string,
+  hook: unknown
+): string | undefined {
+  for (const [name, definition] of Object.entries(knownDefinitions)) {
+    const matchers = definition[eventName] ?? [];
+    const found = matchers.some(definitionMatcher =>
+      (definitionMatcher.matcher ?? '') === matcher &&
+      definitionMatcher.hooks.some(definitionHook => areHooksEqual(definitionHook, hook))
+    );
+    if (found) {
+      return name;
+    }
+  }
+  return undefined;
+}
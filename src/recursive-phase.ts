@@ -0,0 +1,404 @@
+/*
+ * CLI tool for managing Claude Code hooks
+ * Copyright (C) 2025  Peoples Grocers LLC
+ *
+ * This library is free software; you can redistribute it and/or
+ * modify it under the terms of the GNU Lesser General Public
+ * License as published by the Free Software Foundation; either
+ * version 2.1 of the License, or (at your option) any later version.
+ *
+ * This library is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the GNU
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public
+ * License along with this library; if not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+import { lockSettingsFile, MAX_REPLANS, SettingsChangedError } from 'src/atomic-write';
+import { chooseMany, confirm, DecisionOptions, DecisionRequiredError } from 'src/decision-phase';
+import { findClaudeDirectoriesBelow } from 'src/discovery-phase';
+import { BUILTIN_DIFF_TOOL } from 'src/diff-tools';
+import { DryRunSummary, offerToIgnore, prepareInstallation, writeInstallation } from 'src/install-phase';
+import { confirmRemoveModified, prepareUninstallation, UninstallStrategy, writeUninstallation } from 'src/uninstall-phase';
+import { displayPath, settingsFileForScope } from 'src/scopes';
+import { defaultReporter } from 'src/reporter';
+import { DefinitionIdentity, HookMatchMode, Hooks, SettingsScope } from 'src/types';
+
+export interface RecursiveOptions extends Omit<DecisionOptions, 'createIfMissing' | 'target'> {
+  /** Diff command template (see diff-tools.ts), or 'builtin'; dry runs default to builtin */
+  diffTool?: string;
+  /** Work everything out and show the diff, but write nothing */
+  dryRun?: boolean;
+  /** Which settings file in each project (default: local); user scope has no projects */
+  scope?: Exclude<SettingsScope, 'user'>;
+  /** Recorded in (or removed from) each project's ledger */
+  definition?: DefinitionIdentity;
+  /** Edit settings files even when they don't parse */
+  force?: boolean;
+  /** Which hook fields must match for an entry to be removed (default: identity) */
+  match?: HookMatchMode;
+  binaryName?: string;
+}
+
+/**
+ * What happened (or would happen, on a dry run) in one project
+ */
+export interface ProjectResult {
+  success: boolean;
+  error?: string;
+  /** The project directory, the one holding .claude */
+  directory: string;
+  settingsPath: string;
+  /** Matchers added or entries removed */
+  changedCount: number;
+  backupPath?: string;
+  /** Set when this was a dry run: what would have happened */
+  dryRun?: DryRunSummary;
+}
+
+export interface RecursiveResult {
+  success: boolean;
+  error?: string;
+  cancelled?: boolean;
+  /** One result per project found below the root */
+  files: ProjectResult[];
+}
+
+/**
+ * One project's change, worked out and waiting to be written
+ */
+interface ProjectChange {
+  directory: string;
+  settingsPath: string;
+  before: string;
+  after: string;
+  changedCount: number;
+  summary: DryRunSummary;
+  /** Uninstall: our matchers the user has edited, left alone unless asked */
+  modified?: Array<{ jsonPath: (string | number)[]; current: unknown }>;
+  write: () => Promise<{ backupPath?: string }>;
+}
+
+/**
+ * Work out one project's change. removeModified says whether an uninstall
+ * takes our entries out of matchers the user has edited; it is asked once
+ * for every project, after they are all planned.
+ */
+type PlanProject = (directory: string, removeModified: boolean) => Promise<ProjectChange | undefined>;
+
+/**
+ * Install a definition into every project below a root that has a .claude
+ * directory, with one plan, one diff and one confirmation for all of them
+ */
+export async function installRecursively(
+  root: string,
+  hooks: Hooks,
+  options: RecursiveOptions = {}
+): Promise<RecursiveResult> {
+  const reporter = options.reporter ?? defaultReporter;
+  const settingsFile = settingsFileForScope(options.scope ?? 'local');
+  
+  return await performRecursive('install', root, async directory => {
+    const prepared = await prepareInstallation(directory, false, hooks, settingsFile, options);
+    return {
+      directory,
+      settingsPath: prepared.settingsPath,
+      before: prepared.currentContent,
+      after: prepared.plan.newContent,
+      changedCount: prepared.summary.changed ? prepared.plan.addedCount : 0,
+      summary: prepared.summary,
+      write: async () => {
+        const written = await writeInstallation(prepared, options.definition, reporter);
+        await offerToIgnore(prepared, options);
+        return written;
+      }
+    };
+  }, options);
+}
+
+/**
+ * Uninstall from every project below a root that has a .claude directory,
+ * with one plan, one diff and one confirmation for all of them
+ */
+export async function uninstallRecursively(
+  root: string,
+  strategy: UninstallStrategy,
+  options: RecursiveOptions = {}
+): Promise<RecursiveResult> {
+  const reporter = options.reporter ?? defaultReporter;
+  const settingsFile = settingsFileForScope(options.scope ?? 'local');
+  
+  return await performRecursive('uninstall', root, async (directory, removeModified) => {
+    const settingsPath = path.join(directory, '.claude', settingsFile);
+    try {
+      await fs.stat(settingsPath);
+    } catch {
+      // No settings file: nothing of ours to remove
+      return undefined;
+    }
+    
+    const prepared = await prepareUninstallation(directory, strategy, { ...options, removeModified });
+    return {
+      directory,
+      settingsPath,
+      before: prepared.currentContent,
+      after: prepared.plan.newContent,
+      changedCount: prepared.plan.removedCount,
+      summary: prepared.summary,
+      modified: prepared.modified.map(({ path: matcherPath, current }) => ({ jsonPath: matcherPath!, current })),
+      write: () => writeUninstallation(prepared, reporter)
+    };
+  }, options);
+}
+
+/**
+ * Recursive Phase: find the projects, plan each one, ask once about
+ * matchers the user has edited, let the user pick which to change, show
+ * every change as one diff, and after one confirmation write them all.
+ * A project that fails doesn't stop the others.
+ */
+async function performRecursive(
+  operation: 'install' | 'uninstall',
+  root: string,
+  planProject: PlanProject,
+  options: RecursiveOptions
+): Promise<RecursiveResult> {
+  // Each project's lock is held from reading its settings to writing them;
+  // a dry run writes nothing and doesn't need them
+  const releases: Array<() => Promise<void>> = [];
+  const lock = async (directory: string) => {
+    if (!options.dryRun) {
+      releases.push(await lockSettingsFile(path.join(directory, '.claude', settingsFileForScope(options.scope ?? 'local'))));
+    }
+  };
+  
+  try {
+    return await planAndWriteProjects(operation, root, planProject, lock, options);
+  } finally {
+    for (const release of releases) {
+      await release();
+    }
+  }
+}
+
+async function planAndWriteProjects(
+  operation: 'install' | 'uninstall',
+  root: string,
+  planProject: PlanProject,
+  lock: (directory: string) => Promise<void>,
+  options: RecursiveOptions
+): Promise<RecursiveResult> {
+  const reporter = options.reporter ?? defaultReporter;
+  const rootDirectory = path.resolve(root);
+  const directories = await findClaudeDirectoriesBelow(rootDirectory);
+  
+  const results: ProjectResult[] = [];
+  const planned = new Map<string, ProjectChange>();
+  
+  for (const directory of directories) {
+    try {
+      await lock(directory);
+      const change = await planProject(directory, false);
+      if (change) {
+        planned.set(directory, change);
+      }
+      results.push({
+        success: true,
+        directory,
+        settingsPath: change?.settingsPath ?? path.join(directory, '.claude', settingsFileForScope(options.scope ?? 'local')),
+        changedCount: change?.changedCount ?? 0,
+        ...(options.dryRun && change && { dryRun: change.summary })
+      });
+    } catch (error) {
+      if (error instanceof DecisionRequiredError) {
+        throw error;
+      }
+      results.push({
+        success: false,
+        directory,
+        settingsPath: path.join(directory, '.claude', settingsFileForScope(options.scope ?? 'local')),
+        changedCount: 0,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+  
+  reporter.report({
+    type: 'recursive-plan',
+    operation,
+    root: rootDirectory,
+    projects: results.map(result => ({
+      path: result.settingsPath,
+      status: !result.success ? 'failed' : result.changedCount > 0 ? 'changes' : 'unchanged',
+      count: result.changedCount,
+      error: result.error
+    }))
+  });
+  
+  // Matchers the user has edited are asked about once, for every project
+  const modified = [...planned.values()].filter(change => change.modified?.length);
+  let removeModified = false;
+  if (modified.length > 0) {
+    for (const change of modified) {
+      reporter.report({ type: 'modified-entries', path: change.settingsPath, entries: change.modified! });
+    }
+    removeModified = await confirmRemoveModified(modified.reduce((sum, change) => sum + change.modified!.length, 0), options);
+  }
+  if (removeModified) {
+    for (const { directory } of modified) {
+      const result = results.find(candidate => candidate.directory === directory)!;
+      try {
+        const change = await planProject(directory, true);
+        if (change) {
+          planned.set(directory, change);
+        } else {
+          planned.delete(directory);
+        }
+        result.changedCount = change?.changedCount ?? 0;
+        if (options.dryRun && change) {
+          result.dryRun = change.summary;
+        }
+      } catch (error) {
+        if (error instanceof DecisionRequiredError) {
+          throw error;
+        }
+        planned.delete(directory);
+        result.success = false;
+        result.changedCount = 0;
+        result.error = error instanceof Error ? error.message : String(error);
+      }
+    }
+  }
+  
+  const changes = [...planned.values()].filter(change => change.summary.changed);
+  
+  const finish = (chosen: ProjectChange[]): RecursiveResult => {
+    const failed = results.filter(result => !result.success);
+    reporter.report({
+      type: 'recursive-finished',
+      operation,
+      dryRun: Boolean(options.dryRun),
+      changed: chosen.map(change => change.settingsPath),
+      failed: failed.map(result => ({ path: result.settingsPath, error: result.error ?? '' }))
+    });
+    return {
+      success: failed.length === 0,
+      ...(failed.length > 0 && { error: `${failed.length} of ${results.length} projects failed` }),
+      files: results
+    };
+  };
+  
+  if (changes.length === 0) {
+    return finish([]);
+  }
+  
+  const verb = operation === 'install' ? 'change' : 'clean';
+  const chosen = changes.length === 1
+    ? changes
+    : await chooseMany(
+        `Which projects should I ${verb}?`,
+        changes.map(change => ({ title: path.relative(rootDirectory, change.directory) || '.', value: change })),
+        options,
+        'Pass --yes to change all of them.'
+      );
+  
+  if (chosen.length === 0) {
+    reporter.report({ type: 'cancelled', operation, stage: 'decision' });
+    return { success: false, cancelled: true, files: results };
+  }
+  
+  reporter.report({
+    type: 'diffs',
+    root: rootDirectory,
+    files: chosen.map(change => ({ path: change.settingsPath, before: change.before, after: change.after })),
+    diffTool: options.diffTool ?? (options.dryRun ? BUILTIN_DIFF_TOOL : undefined)
+  });
+  
+  if (options.dryRun) {
+    return finish(chosen);
+  }
+  
+  const total = chosen.reduce((sum, change) => sum + change.changedCount, 0);
+  const projects = `${chosen.length} ${chosen.length === 1 ? 'project' : 'projects'}`;
+  const confirmed = await confirm(
+    operation === 'install'
+      ? `Add ${total} hook ${total === 1 ? 'matcher' : 'matchers'} across ${projects}?`
+      : `Remove ${total} ${total === 1 ? 'entry' : 'entries'} across ${projects}?`,
+    true,
+    options
+  );
+  
+  if (!confirmed) {
+    reporter.report({ type: 'cancelled', operation, stage: 'confirmation' });
+    return { success: false, cancelled: true, files: results };
+  }
+  
+  const written: ProjectChange[] = [];
+  for (const change of chosen) {
+    const result = results.find(candidate => candidate.directory === change.directory)!;
+    try {
+      const outcome = await writeProject(change, () => planProject(change.directory, removeModified), options);
+      if (outcome) {
+        result.changedCount = outcome.change.changedCount;
+        result.backupPath = outcome.backupPath;
+        written.push(outcome.change);
+      } else {
+        result.changedCount = 0;
+      }
+    } catch (error) {
+      result.success = false;
+      result.error = error instanceof Error ? error.message : String(error);
+    }
+  }
+  
+  return finish(written);
+}
+
+/**
+ * Write one project's change; its settings lock is held already. If the
+ * file changed since it was planned (another program doesn't know about
+ * the lock), the project is planned again against what is there now, shown
+ * again and confirmed on its own. Returns undefined when there is nothing
+ * left to write or the user declines the new plan.
+ */
+async function writeProject(
+  change: ProjectChange,
+  replan: () => Promise<ProjectChange | undefined>,
+  options: RecursiveOptions
+): Promise<{ change: ProjectChange; backupPath?: string } | undefined> {
+  const reporter = options.reporter ?? defaultReporter;
+  
+  let current = change;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const { backupPath } = await current.write();
+      return { change: current, backupPath };
+    } catch (error) {
+      if (!(error instanceof SettingsChangedError) || attempt === MAX_REPLANS) {
+        throw error;
+      }
+      reporter.report({ type: 'settings-changed', path: current.settingsPath });
+    }
+    
+    const replanned = await replan();
+    if (!replanned?.summary.changed) {
+      return undefined;
+    }
+    reporter.report({
+      type: 'diff',
+      path: replanned.settingsPath,
+      before: replanned.before,
+      after: replanned.after,
+      diffTool: options.diffTool
+    });
+    if (!await confirm(`Write the new change to ${displayPath(replanned.settingsPath)}?`, true, options)) {
+      return undefined;
+    }
+    current = replanned;
+  }
+}
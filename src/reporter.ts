@@ -0,0 +1,561 @@
+/*
+ * CLI tool for managing Claude Code hooks
+ * Copyright (C) 2025  Peoples Grocers LLC
+ *
+ * This library is free software; you can redistribute it and/or
+ * modify it under the terms of the GNU Lesser General Public
+ * License as published by the Free Software Foundation; either
+ * version 2.1 of the License, or (at your option) any later version.
+ *
+ * This library is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the GNU
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public
+ * License along with this library; if not, see <https://www.gnu.org/licenses/>.
+ */
+
+import path from 'path';
+
+import chalk from './vendor/chalk';
+
+import type { DryRunSummary, InstallResult } from './install-phase';
+import type { UninstallResult } from './uninstall-phase';
+import type { Hooks, SettingsScope } from './types';
+import { describeScope, displayPath } from './scopes';
+import { showDiff, showDiffs } from './diff-tools';
+import { describeHook } from './hook-entry';
+
+/**
+ * Everything the phases have to say, as data. Library users pick how (and
+ * whether) it gets shown by passing a Reporter; the CLI uses the pretty one.
+ */
+export type ReporterEvent =
+  // Discovery
+  | { type: 'search-started'; scope: SettingsScope }
+  | { type: 'directory-checked'; path: string; found: boolean }
+  | { type: 'settings-checked'; path: string; exists: boolean; inParent: boolean }
+  | { type: 'search-finished'; scope: SettingsScope; found: boolean; claudeDirectoryPath?: string; isInCurrentDirectory?: boolean; searchedCount: number }
+  // Decision
+  | { type: 'directory-chosen'; path: string; reason: 'current' | 'target' | 'user' | 'create-if-missing' }
+  | { type: 'directory-missing'; path: string; reason: 'target' | 'user' }
+  | { type: 'parent-directory-found'; path: string; displayPath: string; outsideRepository?: boolean }
+  | { type: 'parent-directory-declined'; path: string }
+  | { type: 'create-offered' }
+  // Install
+  | { type: 'install-started'; hookCount: number; scope: SettingsScope; settingsFile: string }
+  | { type: 'installing'; settingsPath: string; scope?: SettingsScope }
+  | { type: 'settings-read'; path: string; exists: boolean }
+  | { type: 'already-installed'; path: string }
+  | { type: 'hooks-added'; path: string; addedCount: number; skippedCount: number }
+  | { type: 'directory-created'; path: string }
+  | { type: 'file-created'; path: string }
+  | { type: 'install-result'; result: InstallResult; hooks: Hooks }
+  | { type: 'settings-not-ignored'; path: string; repositoryRoot: string }
+  | { type: 'gitignore-updated'; path: string; entry: string }
+  | { type: 'uncommitted-changes'; path: string }
+  // Uninstall
+  | { type: 'uninstall-started'; path: string; label: string }
+  | { type: 'parent-uninstall-warning'; path: string }
+  | { type: 'nothing-to-uninstall'; reason: 'no-claude-directory' | 'no-settings-file' | 'parent-excluded' | 'no-matches'; path?: string; label?: string }
+  | { type: 'hooks-removed'; path: string; removedCount: number; label: string }
+  | { type: 'modified-entries'; path: string; entries: Array<{ jsonPath: (string | number)[]; current: unknown }> }
+  | { type: 'settings-changed'; path: string }
+  | { type: 'uninstall-result'; result: UninstallResult }
+  | { type: 'uninstall-matches'; label: string; files: Array<{ path: string; scope: SettingsScope; matches: Array<{ jsonPath: (string | number)[]; line: number; modified: boolean; commands: string[] }> }> }
+  // Upgrade
+  | { type: 'upgrade-started'; path: string; label: string; fromVersion?: string; toVersion?: string }
+  | { type: 'parent-upgrade-warning'; path: string }
+  | { type: 'nothing-to-upgrade'; reason: 'no-claude-directory' | 'no-settings-file' | 'parent-excluded' | 'not-installed' | 'up-to-date'; path?: string; label?: string }
+  | { type: 'hooks-upgraded'; path: string; replacedCount: number; removedCount: number; addedCount: number; label: string }
+  // Recursive install and uninstall
+  | { type: 'recursive-plan'; operation: 'install' | 'uninstall'; root: string; projects: Array<{ path: string; status: 'changes' | 'unchanged' | 'failed'; count: number; error?: string }> }
+  | { type: 'recursive-finished'; operation: 'install' | 'uninstall'; dryRun: boolean; changed: string[]; failed: Array<{ path: string; error: string }> }
+  // Shared
+  | { type: 'diff'; path: string; before: string; after: string; diffTool?: string }
+  | { type: 'diffs'; root: string; files: Array<{ path: string; before: string; after: string }>; diffTool?: string }
+  | { type: 'backup-saved'; path: string; backupPath: string }
+  | { type: 'dry-run-finished'; summary: DryRunSummary }
+  | { type: 'cancelled'; operation: 'install' | 'uninstall' | 'upgrade'; stage: 'decision' | 'confirmation' }
+  | { type: 'failed'; operation: 'install' | 'uninstall' | 'upgrade'; error: string }
+  | { type: 'warning'; message: string };
+
+export interface Reporter {
+  report(event: ReporterEvent): void;
+}
+
+/**
+ * Reports nothing at all
+ */
+export const silentReporter: Reporter = {
+  report() {}
+};
+
+/**
+ * One JSON object per line, for tools that want to follow along
+ */
+export function createJsonLinesReporter(stream: NodeJS.WritableStream = process.stdout): Reporter {
+  return {
+    report(event) {
+      stream.write(JSON.stringify(event) + '\n');
+    }
+  };
+}
+
+/**
+ * The friendly, colourful output the CLI shows
+ */
+export function createPrettyReporter(): Reporter {
+  return {
+    report(event) {
+      switch (event.type) {
+        case 'search-started':
+          console.log(event.scope === 'user'
+            ? `Looking for your user .claude directory in...`
+            : `Looking for .claude directory in...`);
+          break;
+        
+        case 'directory-checked':
+          console.log(`  ${event.found ? chalk.green('✓') : chalk.red('✗')} ${chalk.gray(event.path)}`);
+          break;
+        
+        case 'settings-checked': {
+          const fileName = path.basename(event.path);
+          if (event.inParent) {
+            console.log(chalk.gray(event.exists ? `     With existing ${fileName}` : `     No ${fileName} yet`));
+          } else {
+            console.log(chalk.gray(event.exists ? `  I see there's already a ${fileName} file` : `  No ${fileName} file yet`));
+          }
+          break;
+        }
+        
+        case 'search-finished':
+          if (event.scope === 'user') {
+            // There was only one place to look, the checkmark said it all
+          } else if (!event.found) {
+            console.log(chalk.yellow('⚠') + ` No .claude directory found in ${event.searchedCount} locations`);
+          } else if (event.isInCurrentDirectory === false && event.claudeDirectoryPath) {
+            console.log(`\nI found a .claude directory at: ${parentDisplayPath(event.claudeDirectoryPath)}`);
+          }
+          break;
+        
+        case 'directory-chosen':
+          switch (event.reason) {
+            case 'current':
+              console.log(chalk.green(`\nGreat! I'll use the .claude directory that's already here.`));
+              break;
+            case 'target':
+              console.log(chalk.green(`\nI'll use the .claude directory in ${event.path}`));
+              break;
+            case 'user':
+              console.log(chalk.green(`\nGreat! I'll use your user .claude directory.`));
+              console.log(chalk.gray(`Hooks here apply to every project you open with Claude.`));
+              break;
+            case 'create-if-missing':
+              console.log(`I'll create it in the current directory.`);
+              break;
+          }
+          break;
+        
+        case 'directory-missing':
+          console.log(event.reason === 'user'
+            ? `\nYou don't have a user .claude directory yet.`
+            : `\nThere's no .claude directory in ${event.path} yet.`);
+          break;
+        
+        case 'parent-directory-found':
+          console.log('\n' + chalk.yellow('⚠') + '  I need to check something with you:');
+          console.log(chalk.white(`I found a .claude directory in a parent folder (${event.displayPath})`));
+          console.log(chalk.gray(`If I install there, the hooks will apply to that entire project.`));
+          console.log(chalk.gray(`That includes this directory and all its siblings.`));
+          if (event.outsideRepository) {
+            console.log(chalk.yellow(`It's outside your git repository, so other repositories under it would get the hooks too.`));
+          }
+          break;
+        
+        case 'parent-directory-declined':
+          console.log(`\nOkay, I won't use the parent directory.`);
+          break;
+        
+        case 'create-offered':
+          console.log(`\nI can create a new .claude directory for you.`);
+          console.log(chalk.gray(`This will establish a new scope for Claude settings.`));
+          break;
+        
+        case 'install-started':
+          console.log(chalk.blue('◆') + ` Installing ${event.hookCount} ${event.hookCount > 1 ? "hooks" : "hook"} into ${event.settingsFile} ` + chalk.gray(`${describeScope(event.scope)}\n`));
+          break;
+        
+        case 'installing': {
+          const owner = event.scope === 'user' ? 'your user' : `project's`;
+          console.log(`Installing hooks into ${owner} .claude/${path.basename(event.settingsPath)}`);
+          break;
+        }
+        
+        case 'settings-read':
+          if (event.exists) {
+            console.log(chalk.gray(`\nI found an existing ${path.basename(event.path)} file`));
+            console.log(`I'll add the hooks to it...`);
+          } else {
+            console.log(`\nI'll create a ${path.basename(event.path)} file...`);
+          }
+          break;
+        
+        case 'already-installed':
+          console.log(chalk.green(`✓`) + ` These hooks are already installed. Nothing to change.`);
+          break;
+        
+        case 'hooks-added':
+          console.log(chalk.green(`✓ Added ${event.addedCount} hook ${event.addedCount === 1 ? 'matcher' : 'matchers'}`));
+          if (event.skippedCount > 0) {
+            console.log(chalk.gray(`  ${event.skippedCount} already installed, left as they were`));
+          }
+          break;
+        
+        case 'directory-created':
+          console.log(`\nI'm creating a new .claude directory...`);
+          console.log(chalk.green(`✓ I created: ${event.path}`));
+          break;
+        
+        case 'file-created':
+          console.log(chalk.green(`✓ I created: ${path.basename(event.path)}`));
+          break;
+        
+        case 'settings-not-ignored':
+          console.log('\n' + chalk.yellow('⚠') + ` ${path.basename(event.path)} isn't ignored by git, so your personal hooks could end up committed.`);
+          console.log(chalk.gray(`Add .claude/${path.basename(event.path)} to your .gitignore to keep it out.`));
+          break;
+        
+        case 'gitignore-updated':
+          console.log(chalk.green('✓') + ` I added ${event.entry} to ${displayPath(event.path)}`);
+          break;
+        
+        case 'uncommitted-changes':
+          console.log('\n' + chalk.yellow('⚠') + ` ${displayPath(event.path)} has changes you haven't committed.`);
+          console.log(chalk.gray(`My change would be mixed in with them. Commit or stash them first to review it on its own.`));
+          break;
+        
+        case 'install-result':
+          printInstallResult(event.result, event.hooks);
+          break;
+        
+        case 'uninstall-started':
+          console.log(chalk.blue(`Uninstalling ${event.label}...`));
+          break;
+        
+        case 'parent-uninstall-warning':
+          console.log('\n' + chalk.yellow('⚠') + '  CONFIRMATION REQUIRED');
+          console.log(chalk.white('You are about to uninstall hooks from a parent directory.'));
+          console.log(chalk.gray(`This will affect the entire project at: ${event.path}`));
+          break;
+        
+        case 'nothing-to-uninstall':
+          switch (event.reason) {
+            case 'no-claude-directory':
+              console.log('No .claude directory found. Nothing to uninstall.');
+              break;
+            case 'no-settings-file':
+              console.log(`No ${path.basename(event.path ?? 'settings file')} found. Nothing to uninstall.`);
+              break;
+            case 'parent-excluded':
+              console.log('The only .claude directory is in a parent folder, and --no-parent was given. Nothing to uninstall.');
+              break;
+            case 'no-matches':
+              console.log(`No matching ${event.label ?? 'hooks'} found to uninstall.`);
+              break;
+          }
+          break;
+        
+        case 'hooks-removed':
+          console.log(`\n` + chalk.green('✓') + ` Uninstalled ${event.removedCount} ${event.label} entries.`);
+          break;
+        
+        case 'modified-entries':
+          console.log('\n' + chalk.yellow('⚠') + ` ${event.entries.length === 1 ? 'One hook' : `${event.entries.length} hooks`} I installed in ${displayPath(event.path)} ${event.entries.length === 1 ? 'has' : 'have'} been changed since:`);
+          for (const entry of event.entries) {
+            const [, eventName, index] = entry.jsonPath;
+            console.log(chalk.gray(`  ${eventName}[${index}]: ${truncate(JSON.stringify(entry.current), 100)}`));
+          }
+          break;
+        
+        case 'settings-changed':
+          console.log('\n' + chalk.yellow('⚠') + ` ${path.basename(event.path)} changed while I was waiting, so I didn't write it.`);
+          console.log(`Here is the change again, worked out against what's there now:`);
+          break;
+        
+        case 'uninstall-result':
+          printUninstallResult(event.result);
+          break;
+        
+        case 'uninstall-matches':
+          console.log(`I found ${event.label} hooks in ${event.files.length === 1 ? 'one settings file' : `${event.files.length} settings files`}:`);
+          for (const file of event.files) {
+            console.log(`  ${displayPath(file.path)} ` + chalk.gray(`[${file.scope}]`));
+            for (const match of file.matches) {
+              const [, eventName, index, , entryIndex] = match.jsonPath;
+              const entry = entryIndex === undefined ? '' : `.hooks[${entryIndex}]`;
+              const note = match.modified ? chalk.yellow(' (changed since it was installed)') : '';
+              console.log(chalk.gray(`    line ${match.line}: ${eventName}[${index}]${entry}`) + note);
+              for (const command of match.commands) {
+                console.log(chalk.gray(`      ${truncate(command, 100)}`));
+              }
+            }
+          }
+          break;
+        
+        case 'parent-upgrade-warning':
+          console.log('\n' + chalk.yellow('⚠') + '  CONFIRMATION REQUIRED');
+          console.log(chalk.white('You are about to upgrade hooks in a parent directory.'));
+          console.log(chalk.gray(`This will affect the entire project at: ${event.path}`));
+          break;
+        
+        case 'upgrade-started': {
+          const versions = event.fromVersion && event.toVersion
+            ? ` from ${event.fromVersion} to ${event.toVersion}`
+            : event.toVersion ? ` to ${event.toVersion}` : '';
+          console.log(chalk.blue(`Upgrading ${event.label}${versions}...`));
+          break;
+        }
+        
+        case 'nothing-to-upgrade':
+          switch (event.reason) {
+            case 'no-claude-directory':
+              console.log('No .claude directory found. Nothing to upgrade.');
+              break;
+            case 'no-settings-file':
+              console.log(`No ${path.basename(event.path ?? 'settings file')} found. Nothing to upgrade.`);
+              break;
+            case 'parent-excluded':
+              console.log('The only .claude directory is in a parent folder, and --no-parent was given. Nothing to upgrade.');
+              break;
+            case 'not-installed':
+              console.log(`I couldn't find an earlier version of ${event.label ?? 'these hooks'} to upgrade. Use install to add them.`);
+              break;
+            case 'up-to-date':
+              console.log(chalk.green('✓') + ` ${event.label ?? 'These hooks'} ${event.label ? 'is' : 'are'} already up to date. Nothing to change.`);
+              break;
+          }
+          break;
+        
+        case 'hooks-upgraded': {
+          const changes = [
+            event.replacedCount > 0 && `updated ${event.replacedCount}`,
+            event.addedCount > 0 && `added ${event.addedCount}`,
+            event.removedCount > 0 && `removed ${event.removedCount}`
+          ].filter(Boolean).join(', ');
+          console.log(`\n` + chalk.green('✓') + ` Upgraded ${event.label}: ${changes || 'nothing to change'}.`);
+          console.log(chalk.gray(`Location: ${event.path}`));
+          break;
+        }
+        
+        case 'recursive-plan': {
+          if (event.projects.length === 0) {
+            console.log(`\nI didn't find any .claude directories below ${displayPath(event.root) || '.'}.`);
+            break;
+          }
+          const projectCount = event.projects.length === 1 ? 'one project' : `${event.projects.length} projects`;
+          console.log(`\nI found ${projectCount} below ${displayPath(event.root) || '.'}:`);
+          for (const project of event.projects) {
+            const name = path.relative(event.root, project.path);
+            if (project.status === 'failed') {
+              console.log(`  ${name} ` + chalk.red(`✗ ${project.error}`));
+            } else if (project.status === 'unchanged') {
+              console.log(chalk.gray(`  ${name} ${event.operation === 'install' ? 'already installed' : 'nothing to remove'}`));
+            } else {
+              const change = event.operation === 'install'
+                ? `add ${project.count} hook ${project.count === 1 ? 'matcher' : 'matchers'}`
+                : `remove ${project.count} ${project.count === 1 ? 'entry' : 'entries'}`;
+              console.log(`  ${name} ` + chalk.yellow(change));
+            }
+          }
+          break;
+        }
+        
+        case 'recursive-finished': {
+          const projects = (count: number) => `${count} ${count === 1 ? 'project' : 'projects'}`;
+          if (event.dryRun) {
+            console.log(event.changed.length === 0
+              ? chalk.gray(`\nDry run: nothing would change. Nothing was written.`)
+              : chalk.yellow(`\nDry run: I would change ${projects(event.changed.length)}. Nothing was written.`));
+          } else if (event.changed.length === 0) {
+            console.log(`\n` + chalk.green('✓') + ` Nothing to change.`);
+          } else {
+            const verb = event.operation === 'install' ? 'Installed into' : 'Uninstalled from';
+            console.log(`\n` + chalk.green('✓') + ` ${verb} ${projects(event.changed.length)}.`);
+          }
+          if (event.failed.length > 0) {
+            console.log(chalk.red(`✗ ${projects(event.failed.length)} failed:`));
+            for (const failure of event.failed) {
+              console.log(chalk.red(`  ${displayPath(failure.path)}: ${failure.error}`));
+            }
+          }
+          break;
+        }
+        
+        case 'diff':
+          showDiff(event.before, event.after, path.basename(event.path), event.diffTool);
+          break;
+        
+        case 'diffs':
+          showDiffs(
+            event.files.map(file => ({ before: file.before, after: file.after, name: path.relative(event.root, file.path) })),
+            event.diffTool
+          );
+          break;
+        
+        case 'backup-saved':
+          console.log(chalk.gray(`Previous version saved to: ${event.backupPath}`));
+          break;
+        
+        case 'dry-run-finished':
+          printDryRunSummary(event.summary);
+          break;
+        
+        case 'cancelled':
+          if (event.stage === 'decision') {
+            console.log(`\nI understand. No changes made.`);
+          } else if (event.operation === 'install') {
+            console.log(`\nInstall cancelled. No changes made.`);
+          } else if (event.operation === 'upgrade') {
+            console.log(`\nUpgrade cancelled. No changes made.`);
+          } else {
+            console.log('\nUninstall cancelled.');
+          }
+          break;
+        
+        case 'failed':
+          if (event.operation === 'install') {
+            console.log(chalk.red(`\n✗ I couldn't complete the installation`));
+            console.log(chalk.yellow('⚠') + ` The problem was: ${event.error}`);
+          } else if (event.operation === 'upgrade') {
+            console.log(chalk.red(`\n✗ I couldn't complete the upgrade`));
+            console.log(chalk.yellow('⚠') + ` The problem was: ${event.error}`);
+          } else {
+            console.log(chalk.red(`\n❌ Uninstallation failed: ${event.error}`));
+          }
+          break;
+        
+        case 'warning':
+          console.warn(chalk.yellow('⚠') + ` ${event.message}`);
+          break;
+      }
+    }
+  };
+}
+
+/**
+ * The reporter used when none is passed
+ */
+export const defaultReporter: Reporter = createPrettyReporter();
+
+/**
+ * Shorten text to at most `length` characters
+ */
+function truncate(text: string, length: number): string {
+  return text.length > length ? text.slice(0, length - 1) + '…' : text;
+}
+
+/**
+ * "../.." style path from the current directory up to a parent directory
+ */
+function parentDisplayPath(directory: string): string {
+  const relativePath = path.relative(process.cwd(), directory);
+  return relativePath.split(path.sep).map(() => '..').join('/');
+}
+
+/**
+ * Summary shown after an install finishes
+ */
+function printInstallResult(result: InstallResult, hooksInstalled: Hooks): void {
+  if (result.cancelled || result.dryRun) {
+    // The user already saw that nothing was changed
+    return;
+  }
+  
+  if (!result.success) {
+    console.log(chalk.red(`\n✗ I couldn't complete the installation`));
+    console.log(chalk.yellow('⚠') + ` The problem was: ${result.error}`);
+    return;
+  }
+  
+  if (result.alreadyInstalled) {
+    console.log(chalk.gray(`Location: ${result.settingsPath}`));
+    return;
+  }
+  
+  console.log(chalk.green(`\n✓`) + ` Installation complete!`);
+  
+  const settingsFileName = path.basename(result.settingsPath!);
+  
+  if (result.createdNewDirectory && result.createdNewFile) {
+    console.log(chalk.gray(`I created both the .claude directory and ${settingsFileName} file`));
+  } else if (result.createdNewFile) {
+    console.log(chalk.gray(`I created the ${settingsFileName} file`));
+  } else {
+    console.log(chalk.gray(`I updated your existing ${settingsFileName} file`));
+  }
+  
+  console.log(`\nI installed these hooks:`);
+  for (const [eventName, matchers] of Object.entries(hooksInstalled)) {
+    console.log(chalk.cyan(`  ${eventName}:`));
+    if (Array.isArray(matchers)) {
+      matchers.forEach(matcher => {
+        matcher.hooks.forEach((hook, index) => {
+          console.log(chalk.gray(`    ${index + 1}. ${describeHook(hook)}`));
+        });
+      });
+    }
+  }
+  
+  console.log(chalk.gray(`\nLocation: ${result.settingsPath}`));
+  if (result.backupPath) {
+    console.log(chalk.gray(`Previous version saved to: ${result.backupPath}`));
+  }
+}
+
+/**
+ * Summary shown after an uninstall finishes
+ */
+function printUninstallResult(result: UninstallResult): void {
+  if (result.cancelled) {
+    // The cancellation was already reported
+    return;
+  }
+
+  if (!result.success) {
+    console.log(chalk.red('\n✗') +' Uninstallation failed');
+    console.log(chalk.red(`  ${result.error}`));
+    return;
+  }
+
+  if (!result.removedCount || result.removedCount === 0) {
+    // This was already reported during the uninstall
+    return;
+  }
+
+  // Success was already reported during the uninstall
+  console.log(chalk.gray(`Location: ${result.settingsPath}`));
+}
+
+/**
+ * Closing line of a dry run
+ */
+function printDryRunSummary(summary: DryRunSummary): void {
+  if (!summary.changed) {
+    console.log(chalk.gray(`\nDry run: nothing would change. Nothing was written.`));
+    return;
+  }
+  
+  const upgradedCount = summary.replacedCount + summary.removedCount + summary.addedCount;
+  const change = summary.operation === 'install'
+    ? `add ${summary.addedCount} hook ${summary.addedCount === 1 ? 'matcher' : 'matchers'} to`
+    : summary.operation === 'upgrade'
+      ? `upgrade ${upgradedCount} hook ${upgradedCount === 1 ? 'matcher' : 'matchers'} in`
+      : `remove ${summary.removedCount} ${summary.removedCount === 1 ? 'entry' : 'entries'} from`;
+  console.log(chalk.yellow(`\nDry run: I would ${change} ${summary.settingsPath}`));
+  if (summary.createsDirectory) {
+    console.log(chalk.gray(`I would also create .claude in ${path.dirname(path.dirname(summary.settingsPath))} for it.`));
+  }
+  console.log(chalk.gray(`Nothing was written.`));
+}
@@ -0,0 +1,93 @@
+/*
+ * CLI tool for managing Claude Code hooks
+ * Copyright (C) 2025  Peoples Grocers LLC
+ *
+ * This library is free software; you can redistribute it and/or
+ * modify it under the terms of the GNU Lesser General Public
+ * License as published by the Free Software Foundation; either
+ * version 2.1 of the License, or (at your option) any later version.
+ *
+ * This library is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the GNU
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public
+ * License along with this library; if not, see <https://www.gnu.org/licenses/>.
+ */
+
+import path from 'path';
+import os from 'os';
+
+import { SettingsFileName, SettingsScope } from './types';
+
+export const SETTINGS_SCOPES: readonly SettingsScope[] = ['user', 'project', 'local'];
+
+/**
+ * The settings file name used by a scope
+ */
+export function settingsFileForScope(scope: SettingsScope): SettingsFileName {
+  return scope === 'local' ? 'settings.local.json' : 'settings.json';
+}
+
+/**
+ * The project scope a settings file name belongs to. User scope also uses
+ * settings.json, but only in the home directory, so it has to be asked for.
+ */
+export function scopeForSettingsFile(settingsFile: SettingsFileName): SettingsScope {
+  return settingsFile === 'settings.local.json' ? 'local' : 'project';
+}
+
+/**
+ * The directory whose .claude holds user-scope settings
+ */
+export function userSettingsDirectory(): string {
+  return os.homedir();
+}
+
+/**
+ * Full path of the settings file for a scope. Project and local scopes need
+ * the project directory (the one that contains .claude).
+ */
+export function resolveSettingsPath(scope: SettingsScope, projectDirectory?: string): string {
+  const baseDirectory = scope === 'user' ? userSettingsDirectory() : projectDirectory;
+  if (baseDirectory === undefined) {
+    throw new Error(`The ${scope} scope needs a project directory`);
+  }
+  return path.join(baseDirectory, '.claude', settingsFileForScope(scope));
+}
+
+/**
+ * How we show a scope's file to the user, e.g. "~/.claude/settings.json"
+ */
+export function displaySettingsFile(scope: SettingsScope): string {
+  return scope === 'user' ? `~/.claude/${settingsFileForScope(scope)}` : `.claude/${settingsFileForScope(scope)}`;
+}
+
+/**
+ * Paths relative to cwd read better, with ~ for files elsewhere under home
+ */
+export function displayPath(filePath: string): string {
+  const relativePath = path.relative(process.cwd(), filePath);
+  const homeDir = os.homedir();
+  
+  if (relativePath.startsWith('..') && filePath.startsWith(homeDir + path.sep)) {
+    return '~' + filePath.slice(homeDir.length);
+  }
+  
+  return relativePath;
+}
+
+/**
+ * One-line explanation of who a scope affects
+ */
+export function describeScope(scope: SettingsScope): string {
+  switch (scope) {
+    case 'user':
+      return '(personal, applies to all your projects)';
+    case 'project':
+      return '(shared, committed with repo)';
+    case 'local':
+      return '(personal, not committed)';
+  }
+}
@@ -0,0 +1,140 @@
+/*
+ * CLI tool for managing Claude Code hooks
+ * Copyright (C) 2025  Peoples Grocers LLC
+ *
+ * This library is free software; you can redistribute it and/or
+ * modify it under the terms of the GNU Lesser General Public
+ * License as published by the Free Software Foundation; either
+ * version 2.1 of the License, or (at your option) any later version.
+ *
+ * This library is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the GNU
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public
+ * License along with this library; if not, see <https://www.gnu.org/licenses/>.
+ */
+
+import * as jsonc from 'jsonc-parser';
+
+import { positionAt } from './text-position';
+
+/**
+ * Something in a settings file that doesn't parse, and where
+ */
+export interface SettingsParseProblem {
+  /** jsonc's name for it, e.g. "PropertyNameExpected" */
+  code: string;
+  offset: number;
+  length: number;
+  /** 1-based */
+  line: number;
+  /** 1-based */
+  column: number;
+}
+
+/**
+ * Thrown instead of editing a settings file that doesn't parse. jsonc-parser
+ * will happily edit a broken document, but on a half-edited file the result
+ * can be garbage, so we stop and point at the problem instead.
+ */
+export class SettingsParseError extends Error {
+  constructor(
+    public readonly problems: SettingsParseProblem[],
+    public readonly content: string,
+    public readonly filePath?: string
+  ) {
+    const first = problems[0];
+    const more = problems.length > 1 ? ` (and ${problems.length - 1} more)` : '';
+    super(
+      `I won't edit ${filePath ?? 'the settings file'} because it doesn't parse: ` +
+      `${first.code} at line ${first.line}, column ${first.column}${more}\n\n` +
+      codeFrame(content, first.offset, first.length) + '\n\n' +
+      `Fix the file and try again, or pass --force to edit it anyway.`
+    );
+    this.name = 'SettingsParseError';
+  }
+}
+
+/**
+ * Every parse problem in a settings file's text. Trailing commas are fine,
+ * like Claude allows them; an empty file counts as no settings yet.
+ */
+export function findParseProblems(content: string): SettingsParseProblem[] {
+  if (content.trim() === '') {
+    return [];
+  }
+  
+  const errors: jsonc.ParseError[] = [];
+  jsonc.parseTree(content, errors, { allowTrailingComma: true });
+  
+  return errors.map(error => ({
+    code: jsonc.printParseErrorCode(error.error),
+    offset: error.offset,
+    length: error.length,
+    ...positionAt(content, error.offset)
+  }));
+}
+
+/**
+ * Stop with a SettingsParseError when the text doesn't parse
+ */
+export function assertParsableSettings(content: string, filePath?: string): void {
+  const problems = findParseProblems(content);
+  if (problems.length > 0) {
+    throw new SettingsParseError(problems, content, filePath);
+  }
+}
+
+/**
+ * Check settings text before planning an edit: a parse problem stops the
+ * plan, unless forced, in which case it becomes a warning
+ */
+export function checkSettingsText(content: string, force: boolean = false): string[] {
+  if (!force) {
+    assertParsableSettings(content);
+    return [];
+  }
+  return findParseProblems(content).map(problem =>
+    `Parse error ${problem.code} at line ${problem.line}, column ${problem.column}; editing anyway because of --force`);
+}
+
+/**
+ * The lines around an offset with the offending text underlined:
+ *
+ *     3 |   "hooks": {
+ *   > 4 |     "PreToolUse" [
+ *       |                  ^
+ *     5 |       {
+ */
+export function codeFrame(content: string, offset: number, length: number = 1, contextLines: number = 2): string {
+  const lines = content.split(/\r?\n/);
+  if (lines.length > 1 && lines[lines.length - 1] === '') {
+    // The newline at the end of the file doesn't start another line
+    lines.pop();
+  }
+  
+  // A problem at the very end (say, a missing brace) is shown after the last line
+  const position = positionAt(content, offset);
+  const line = Math.min(position.line, lines.length);
+  const column = position.line > lines.length ? lines[line - 1].length + 1 : position.column;
+  const first = Math.max(1, line - contextLines);
+  const last = Math.min(lines.length, line + contextLines);
+  const gutterWidth = String(last).length;
+  
+  const frame: string[] = [];
+  for (let number = first; number <= last; number++) {
+    const gutter = String(number).padStart(gutterWidth);
+    const text = lines[number - 1].replace(/\t/g, '  ');
+    frame.push(`${number === line ? '>' : ' '} ${gutter} | ${text}`.trimEnd());
+    
+    if (number === line) {
+      const before = lines[number - 1].slice(0, column - 1).replace(/\t/g, '  ');
+      const underline = Math.max(1, Math.min(length, lines[number - 1].length - (column - 1)));
+      frame.push(`  ${' '.repeat(gutterWidth)} | ${' '.repeat(before.length)}${'^'.repeat(underline)}`);
+    }
+  }
+  
+  return frame.join('\n');
+}
@@ -0,0 +1,229 @@
+/*
+ * CLI tool for managing Claude Code hooks
+ * Copyright (C) 2025  Peoples Grocers LLC
+ *
+ * This library is free software; you can redistribute it and/or
+ * modify it under the terms of the GNU Lesser General Public
+ * License as published by the Free Software Foundation; either
+ * version 2.1 of the License, or (at your option) any later version.
+ *
+ * This library is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the GNU
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public
+ * License along with this library; if not, see <https://www.gnu.org/licenses/>.
+ */
+import type { Edit } from 'jsonc-parser';
+
+/**
+ * One line of a line-by-line comparison. `text` keeps its line ending, so
+ * joining the lines of one side gives back that side exactly.
+ */
+export interface DiffLine {
+  kind: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * What a planner decided to do to a settings file, worked out in memory.
+ * `edits` are offsets into the original text, so applying them with
+ * jsonc.applyEdits(original, edits) gives `newContent`.
+ */
+export interface SettingsPlan {
+  newContent: string;
+  edits: Edit[];
+  warnings: string[];
+}
+
+/**
+ * Options every planner takes
+ */
+export interface PlanOptions {
+  /** Edit the text even when it doesn't parse (parse problems become warnings) */
+  force?: boolean;
+}
+
+/**
+ * Split text into lines, keeping each line's ending
+ */
+function splitLines(text: string): string[] {
+  return text === '' ? [] : text.split(/(?<=\n)/);
+}
+
+/**
+ * Compare two texts line by line (longest common subsequence).
+ *
+ * Settings files are a few hundred lines at most, so the plain quadratic
+ * table is fine. The shared head and tail are stripped first, which is where
+ * almost all of a settings file lives when we touch it.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = splitLines(before);
+  const b = splitLines(after);
+  
+  let head = 0;
+  while (head < a.length && head < b.length && a[head] === b[head]) {
+    head++;
+  }
+  let tail = 0;
+  while (tail < a.length - head && tail < b.length - head && a[a.length - 1 - tail] === b[b.length - 1 - tail]) {
+    tail++;
+  }
+  
+  const middleA = a.slice(head, a.length - tail);
+  const middleB = b.slice(head, b.length - tail);
+  
+  // lengths[i][j] = LCS length of middleA[i..] and middleB[j..]
+  const lengths: number[][] = Array.from({ length: middleA.length + 1 }, () => new Array(middleB.length + 1).fill(0));
+  for (let i = middleA.length - 1; i >= 0; i--) {
+    for (let j = middleB.length - 1; j >= 0; j--) {
+      lengths[i][j] = middleA[i] === middleB[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+  
+  const lines: DiffLine[] = a.slice(0, head).map(text => ({ kind: 'same', text }));
+  let i = 0;
+  let j = 0;
+  while (i < middleA.length || j < middleB.length) {
+    if (i < middleA.length && j < middleB.length && middleA[i] === middleB[j]) {
+      lines.push({ kind: 'same', text: middleA[i] });
+      i++;
+      j++;
+    } else if (i < middleA.length && (j === middleB.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+      // Removals first, the way diff -u shows a replaced line
+      lines.push({ kind: 'removed', text: middleA[i] });
+      i++;
+    } else {
+      lines.push({ kind: 'added', text: middleB[j] });
+      j++;
+    }
+  }
+  lines.push(...a.slice(a.length - tail).map(text => ({ kind: 'same' as const, text })));
+  
+  return lines;
+}
+
+/**
+ * The smallest set of edits that turns `before` into `after`, with offsets
+ * into `before`. Each run of changed lines becomes one edit, trimmed down to
+ * the characters that actually differ, so a comma added at the end of a line
+ * shows up as just that comma.
+ */
+export function editsBetween(before: string, after: string): Edit[] {
+  const edits: Edit[] = [];
+  let offset = 0;
+  let removed = '';
+  let added = '';
+  
+  const flush = () => {
+    if (removed === '' && added === '') {
+      return;
+    }
+    
+    let prefix = 0;
+    while (prefix < removed.length && prefix < added.length && removed[prefix] === added[prefix]) {
+      prefix++;
+    }
+    let suffix = 0;
+    while (
+      suffix < removed.length - prefix &&
+      suffix < added.length - prefix &&
+      removed[removed.length - 1 - suffix] === added[added.length - 1 - suffix]
+    ) {
+      suffix++;
+    }
+    
+    edits.push({
+      offset: offset - removed.length + prefix,
+      length: removed.length - prefix - suffix,
+      content: added.slice(prefix, added.length - suffix)
+    });
+    removed = '';
+    added = '';
+  };
+  
+  for (const line of diffLines(before, after)) {
+    if (line.kind === 'same') {
+      flush();
+      offset += line.text.length;
+    } else if (line.kind === 'removed') {
+      removed += line.text;
+      offset += line.text.length;
+    } else {
+      added += line.text;
+    }
+  }
+  flush();
+  
+  return edits;
+}
+
+/**
+ * Render a unified diff (the `diff -u` format) entirely in process, so a
+ * preview never depends on what's installed on the machine. Returns '' when
+ * the texts are the same.
+ */
+export function unifiedDiff(before: string, after: string, fileName: string, context: number = 3): string {
+  const lines = diffLines(before, after);
+  if (lines.every(line => line.kind === 'same')) {
+    return '';
+  }
+  
+  // Line numbers on each side where every diff line starts
+  const beforeLineNumbers: number[] = [];
+  const afterLineNumbers: number[] = [];
+  let beforeLine = 1;
+  let afterLine = 1;
+  for (const line of lines) {
+    beforeLineNumbers.push(beforeLine);
+    afterLineNumbers.push(afterLine);
+    if (line.kind !== 'added') beforeLine++;
+    if (line.kind !== 'removed') afterLine++;
+  }
+  
+  const range = (start: number, count: number) =>
+    count === 1 ? `${start}` : `${count === 0 ? start - 1 : start},${count}`;
+  
+  const output = [`--- a/${fileName}`, `+++ b/${fileName}`];
+  let index = 0;
+  
+  while (index < lines.length) {
+    while (index < lines.length && lines[index].kind === 'same') {
+      index++;
+    }
+    if (index === lines.length) {
+      break;
+    }
+    
+    // Changes closer together than two contexts share a hunk
+    let lastChange = index;
+    for (let k = index; k < lines.length && k - lastChange <= 2 * context; k++) {
+      if (lines[k].kind !== 'same') {
+        lastChange = k;
+      }
+    }
+    
+    const start = Math.max(0, index - context);
+    const end = Math.min(lines.length, lastChange + context + 1);
+    const hunk = lines.slice(start, end);
+    const beforeCount = hunk.filter(line => line.kind !== 'added').length;
+    const afterCount = hunk.filter(line => line.kind !== 'removed').length;
+    
+    output.push(`@@ -${range(beforeLineNumbers[start], beforeCount)} +${range(afterLineNumbers[start], afterCount)} @@`);
+    for (const line of hunk) {
+      const marker = line.kind === 'added' ? '+' : line.kind === 'removed' ? '-' : ' ';
+      output.push(marker + line.text.replace(/\r?\n$/, ''));
+      if (!line.text.endsWith('\n')) {
+        output.push('\\ No newline at end of file');
+      }
+    }
+    
+    index = end;
+  }
+  
+  return output.join('\n') + '\n';
+}
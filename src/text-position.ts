@@ -0,0 +1,41 @@
+/*
+ * CLI tool for managing Claude Code hooks
+ * Copyright (C) 2025  Peoples Grocers LLC
+ *
+ * This library is free software; you can redistribute it and/or
+ * modify it under the terms of the GNU Lesser General Public
+ * License as published by the Free Software Foundation; either
+ * version 2.1 of the License, or (at your option) any later version.
+ *
+ * This library is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the GNU
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public
+ * License along with this library; if not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 1-based line and column of an offset in a text, for pointing humans at
+ * the right spot in their settings file
+ */
+export interface TextPosition {
+  line: number;
+  column: number;
+}
+
+export function positionAt(content: string, offset: number): TextPosition {
+  let line = 1;
+  let lineStart = 0;
+  const end = Math.min(offset, content.length);
+  
+  for (let i = 0; i < end; i++) {
+    if (content[i] === '\n') {
+      line++;
+      lineStart = i + 1;
+    }
+  }
+  
+  return { line, column: end - lineStart + 1 };
+}
@@ -17,13 +17,40 @@
  */
 
 // Hook configuration types
-export interface Hook {
+
+/**
+ * Fields any hook entry may carry. Claude Code keeps adding fields, so
+ * anything else in an entry is modelled too and written as-is.
+ */
+interface HookFields {
+  /** Seconds Claude waits for the hook before giving up */
+  timeout?: number;
+  [field: string]: unknown;
+}
+
+export interface CommandHook extends HookFields {
   type: 'command';
   command: string;
 }
 
+export interface PromptHook extends HookFields {
+  type: 'prompt';
+  prompt: string;
+}
+
+export type Hook = CommandHook | PromptHook;
+
+/**
+ * How a hook in a settings file is matched against one from a definition:
+ * - identity: same type and command (or prompt); other fields such as a
+ *             timeout the user raised may differ
+ * - exact:    every field must match
+ */
+export type HookMatchMode = 'identity' | 'exact';
+
 export interface HookMatcher {
-  matcher: string;
+  /** Only for events that filter by one (see MATCHER_EVENTS); missing matches everything, like "" */
+  matcher?: string;
   hooks: Hook[];
 }
 
@@ -31,10 +58,55 @@ export interface Hooks {
   [eventName: string]: HookMatcher[];
 }
 
+/**
+ * Which definition a set of hooks came from. The ledger records it next to
+ * every entry we install, so uninstall knows whose entries are whose.
+ */
+export interface DefinitionIdentity {
+  id: string;
+  version?: string;
+}
+
+/**
+ * A definition file in its long form: `{ "id", "version", "hooks" }`, and
+ * optionally the hooks of its earlier versions under "previous", newest first
+ */
+export interface HookDefinition extends DefinitionIdentity {
+  hooks: Hooks;
+  previous?: DefinitionVersion[];
+}
+
+/**
+ * The hooks one version of a definition installed, so upgrade can find them
+ */
+export interface DefinitionVersion {
+  version?: string;
+  hooks: Hooks;
+}
+
+/**
+ * Which settings file a hook lives in, and so who it applies to:
+ * - user:    ~/.claude/settings.json, every project for this user
+ * - project: <project>/.claude/settings.json, shared and committed with the repo
+ * - local:   <project>/.claude/settings.local.json, personal and not committed
+ */
+export type SettingsScope = 'user' | 'project' | 'local';
+
+export type SettingsFileName = 'settings.json' | 'settings.local.json';
+
 export interface ClaudeSettings {
   hooks?: Hooks;
 }
 
+/**
+ * A settings file as parsed, before anything in it is checked. Users and
+ * other tools write these by hand, so nothing about the shape is promised.
+ */
+export interface SettingsFile {
+  hooks?: Record<string, any[]>;
+  [key: string]: any;
+}
+
 // Type for directory information
 export interface DirectoryInfo {
   path: string;
@@ -16,175 +16,346 @@
  * License along with this library; if not, see <https://www.gnu.org/licenses/>.
  */
 
-import prompts from 'prompts';
-import chalk from './vendor/chalk';
 import { promises as fs } from 'fs';
 import path from 'path';
-import os from 'os';
-import { execSync, spawnSync } from 'child_process';
 import * as jsonc from 'jsonc-parser';
-import { Hooks, HookMatcher, Hook } from './types';
+import { DefinitionIdentity, Hooks, HookMatcher, HookMatchMode, SettingsFile, SettingsFileName, SettingsScope } from './types';
+import { areMatchersEqual, matchingEntryIndices } from './hook-entry';
+import { commandRunsProgram } from './command-parser';
+import { MAX_REPLANS, SettingsChangedError, withSettingsLock, writeSettingsFile, WriteResult } from './atomic-write';
+import { confirm, DecisionOptions, DecisionRequiredError } from './decision-phase';
+import { SettingsFileLocation } from './discovery-phase';
+import { DryRunSummary, reportWarnings, samePath, updateLedger } from './install-phase';
+import { Ledger, LedgerEntry, LocatedEntry, locateEntries, ourEntryPaths, readLedger, recordUninstalled, UNNAMED_DEFINITION_ID } from './ledger';
+import { defaultReporter, Reporter } from './reporter';
+import { settingsFileForScope } from './scopes';
+import { BUILTIN_DIFF_TOOL } from './diff-tools';
+import { editsBetween, PlanOptions, SettingsPlan } from './text-diff';
+import { positionAt } from './text-position';
+import { detectFormatting, keepFinalNewline } from './formatting';
+import { assertParsableSettings, checkSettingsText, SettingsParseError } from './settings-parse';
+import { assertValidHookDefinition } from './validate';
 
 export interface UninstallResult {
   success: boolean;
   error?: string;
   removedCount?: number;
   settingsPath?: string;
+  backupPath?: string;
+  cancelled?: boolean;
+  /** Set when this was a dry run: what would have happened */
+  dryRun?: DryRunSummary;
+  /** One result per settings file, when uninstall went through several */
+  files?: UninstallResult[];
 }
 
-export interface SettingsFile {
-  hooks?: Record<string, any[]>;
-  [key: string]: any;
+export interface UninstallOptions extends Omit<DecisionOptions, 'createIfMissing'> {
+  /** Diff command template (see diff-tools.ts), or 'builtin'; dry runs default to builtin */
+  diffTool?: string;
+  /** Work everything out and show the diff, but write nothing */
+  dryRun?: boolean;
+  /** Which hook fields must match for an entry to be removed (default: identity) */
+  match?: HookMatchMode;
+  binaryName?: string;
+  /** Which settings file to uninstall from (default: local; uninstallHooks looks through every scope) */
+  scope?: SettingsScope;
+  /** Whose ledger entries to remove; must match what install was given */
+  definition?: DefinitionIdentity;
+  /** Edit the settings file even when it doesn't parse */
+  force?: boolean;
+  /** The .claude directory was found in a parent folder: warn and confirm first */
+  inParentDirectory?: boolean;
+  /** Uninstall from every project below this directory that has a .claude directory */
+  recursive?: string;
+  /** Whether to take our entries out of matchers the user has edited; left out, I ask */
+  removeModified?: boolean;
 }
 
 /**
- * Remove all hooks that contain a specific binary name in their commands
+ * What uninstalling would do to a settings file
+ */
+export interface UninstallPlan extends SettingsPlan {
+  /** Matchers that will be removed, plus our entries taken out of shared matchers */
+  removedCount: number;
+}
+
+/**
+ * Remove all hook entries whose command runs a specific binary
  * Returns the new content and count of removed hooks
  */
 export async function removeHooksWithBinary(
     settingsPath: string,
-    binaryName: string
-): Promise<{ newContent: string; removedCount: number; }> {
+    binaryName: string,
+    options: PlanOptions = {}
+): Promise<UninstallPlan> {
     const content = await fs.readFile(settingsPath, 'utf-8');
-    const errors: jsonc.ParseError[] = [];
-    const existingData = jsonc.parse(content, errors) as SettingsFile;
+    if (!options.force) {
+        assertParsableSettings(content, settingsPath);
+    }
+    return planBinaryUninstall(content, binaryName, options);
+}
+
+/**
+ * Work out which hook entries run a binary, and what the settings text
+ * looks like without them. Pure, like planInstall.
+ */
+export function planBinaryUninstall(content: string, binaryName: string, options: PlanOptions = {}): UninstallPlan {
+    return planRemoval(content, options, findBinaryMatches(content, binaryName));
+}
+
+/**
+ * Where the hook entries whose command runs a binary sit in the settings
+ * text, as paths like ["hooks", "PreToolUse", 2, "hooks", 0]. The command is
+ * parsed, so "my-tool" matches `npx my-tool@latest` or `/opt/bin/my-tool`,
+ * but not `my-tool-helper` or `echo my-tool`. The user's other commands in
+ * the same matcher stay.
+ */
+export function findBinaryMatches(content: string, binaryName: string): jsonc.JSONPath[] {
+    const existingData = jsonc.parse(content) as SettingsFile | undefined;
+    const paths: jsonc.JSONPath[] = [];
+
+    for (const [eventName, matchers] of Object.entries(existingData?.hooks ?? {})) {
+        if (!Array.isArray(matchers)) continue;
+
+        matchers.forEach((matcher: any, index: number) => {
+            if (!Array.isArray(matcher?.hooks)) return;
+
+            matcher.hooks.forEach((hook: any, entryIndex: number) => {
+                if (typeof hook?.command === 'string' && commandRunsProgram(hook.command, binaryName)) {
+                    paths.push(['hooks', eventName, index, 'hooks', entryIndex]);
+                }
+            });
+        });
+    }
+
+    return paths;
+}
+
+/**
+ * Remove the matchers, and hook entries inside matchers, at these paths from
+ * the settings text. A matcher left with no entries is removed, events left
+ * with no matchers are removed, and so is the hooks object once it is empty.
+ * Text that doesn't parse stops the plan with a SettingsParseError, unless forced.
+ */
+function planRemoval(
+    content: string,
+    options: PlanOptions,
+    removalPaths: jsonc.JSONPath[]
+): UninstallPlan {
+    const warnings = checkSettingsText(content, options.force);
+    const existingData = jsonc.parse(content) as SettingsFile | undefined;
+    const formattingOptions = detectFormatting(content);
     
-    if (!existingData.hooks) {
-        return { newContent: content, removedCount: 0 };
+    if (!existingData?.hooks) {
+        return { newContent: content, edits: [], removedCount: 0, warnings };
     }
 
     let removedCount = 0;
     let workingContent = content;
+    const remove = (removalPath: jsonc.JSONPath) => {
+        workingContent = removeElement(workingContent, removalPath, formattingOptions);
+    };
 
     // Track which event types to remove entirely
     const eventTypesToRemove: string[] = [];
 
-    // Check each event type for hooks containing the binary
     for (const [eventName, matchers] of Object.entries(existingData.hooks)) {
         if (!Array.isArray(matchers)) continue;
 
-        let hasOtherHooks = false;
-        const matcherIndicesToRemove: number[] = [];
-
-        // Check each matcher in this event
-        matchers.forEach((matcher: any, index: number) => {
-            if (matcher.hooks && Array.isArray(matcher.hooks)) {
-                const hasBinary = matcher.hooks.some((hook: any) => 
-                    hook.command && hook.command.includes(binaryName)
-                );
-
-                if (hasBinary) {
-                    matcherIndicesToRemove.push(index);
-                    removedCount++;
-                } else {
-                    hasOtherHooks = true;
-                }
-            }
-        });
+        const { matcherIndices, entryIndices } = groupRemovalPaths(removalPaths, eventName, matchers);
+        removedCount += matcherIndices.size;
+        for (const entries of entryIndices.values()) {
+            removedCount += entries.size;
+        }
 
         // If all matchers are being removed, mark the entire event for removal
-        if (matcherIndicesToRemove.length === matchers.length) {
+        if (matcherIndices.size === matchers.length) {
             eventTypesToRemove.push(eventName);
-        } else if (matcherIndicesToRemove.length > 0) {
-            // Remove specific matchers (reverse order to maintain indices)
-            matcherIndicesToRemove.sort((a, b) => b - a);
-            for (const index of matcherIndicesToRemove) {
-                const edits = jsonc.modify(workingContent, ['hooks', eventName, index], undefined, {});
-                workingContent = jsonc.applyEdits(workingContent, edits);
+            continue;
+        }
+
+        // Entries first: taking them out doesn't move any matcher
+        for (const [matcherIndex, entries] of entryIndices) {
+            for (const entryIndex of [...entries].sort((a, b) => b - a)) {
+                remove(['hooks', eventName, matcherIndex, 'hooks', entryIndex]);
             }
         }
+
+        // Remove specific matchers (reverse order to maintain indices)
+        for (const index of [...matcherIndices].sort((a, b) => b - a)) {
+            remove(['hooks', eventName, index]);
+        }
     }
 
     // Remove entire event types that have no remaining hooks
     for (const eventType of eventTypesToRemove) {
-        const edits = jsonc.modify(workingContent, ['hooks', eventType], undefined, {});
-        workingContent = jsonc.applyEdits(workingContent, edits);
+        remove(['hooks', eventType]);
     }
 
     // Check if hooks object is now empty and remove it if so
     const updatedData = jsonc.parse(workingContent) as SettingsFile;
     if (updatedData.hooks && Object.keys(updatedData.hooks).length === 0) {
-        const edits = jsonc.modify(workingContent, ['hooks'], undefined, {});
-        workingContent = jsonc.applyEdits(workingContent, edits);
+        remove(['hooks']);
+    }
+
+    if (workingContent !== content) {
+        workingContent = keepFinalNewline(workingContent, formattingOptions);
     }
 
-    return { newContent: workingContent, removedCount };
+    return {
+        newContent: workingContent,
+        edits: editsBetween(content, workingContent),
+        removedCount,
+        warnings
+    };
 }
 
 /**
- * Compare two Hook objects for equality.
- * 
- * The first parameter is a properly typed Hook from our definition.
- * The second parameter is raw data parsed from the JSON settings file - 
- * we have no guarantee it matches our Hook interface, so we must validate
- * its structure and properties defensively.
+ * Remove one array element or object property from the settings text.
+ *
+ * The neighbours belong to the user, and jsonc.modify reformats the lines
+ * around a removal (and drops comments between elements), so we cut the
+ * text ourselves: the element's own lines when it has them, and the comma
+ * that separated it. Nothing else changes. Only an element with no
+ * neighbours goes through jsonc.modify, to tidy the brackets it leaves.
  */
-function areHooksEqual(hook1: Hook, hook2: any): boolean {
-  if (hook2 == null || typeof hook2 !== 'object') return false;
-  
-  return hook1.type === hook2.type && hook1.command === hook2.command;
+function removeElement(content: string, elementPath: jsonc.JSONPath, formattingOptions: jsonc.FormattingOptions): string {
+    const root = jsonc.parseTree(content);
+    const valueNode = root && jsonc.findNodeAtLocation(root, elementPath);
+    // An object member is cut as the whole "key": value pair
+    const element = valueNode?.parent?.type === 'property' ? valueNode.parent : valueNode;
+    const siblings = element?.parent?.children;
+    if (!element || !siblings || siblings.length < 2) {
+        return jsonc.applyEdits(content, jsonc.modify(content, elementPath, undefined, { formattingOptions }));
+    }
+
+    const index = siblings.indexOf(element);
+    const elementEnd = element.offset + element.length;
+    const lineStart = content.lastIndexOf('\n', element.offset - 1) + 1;
+    const ownsLine = content.slice(lineStart, element.offset).trim() === '';
+
+    if (index < siblings.length - 1) {
+        // Cut through the comma after it, and the rest of that line if nothing else is on it
+        const commaEnd = commaAfter(content, elementEnd) + 1;
+        const lineEnd = content.indexOf('\n', commaEnd);
+        const restOfLine = content.slice(commaEnd, lineEnd === -1 ? content.length : lineEnd);
+        if (ownsLine && restOfLine.trim() === '' && lineEnd !== -1) {
+            return content.slice(0, lineStart) + content.slice(lineEnd + 1);
+        }
+        const nextStart = commaEnd + (restOfLine.length - restOfLine.trimStart().length);
+        return content.slice(0, element.offset) + content.slice(nextStart);
+    }
+
+    // Last element: the comma before it goes too
+    const previous = siblings[index - 1];
+    const comma = commaAfter(content, previous.offset + previous.length);
+    if (!ownsLine) {
+        return content.slice(0, comma) + content.slice(elementEnd);
+    }
+
+    // Its line goes with the line break before it; comments in between stay
+    const lineBreak = content[lineStart - 2] === '\r' ? lineStart - 2 : lineStart - 1;
+    return content.slice(0, comma) + content.slice(comma + 1, lineBreak) + content.slice(elementEnd);
 }
 
 /**
- * Compare a typed HookMatcher with raw unvalidated data from settings file.
- * 
- * The typedMatcher comes from our codebase and is guaranteed to be valid.
- * The untypedMatcher is raw JSON data - it could be malformed, have extra
- * properties, missing properties, or wrong types. We defensively check
- * each property we care about rather than assuming the structure is correct.
+ * Offset of the first comma at or after an offset, skipping comments and whitespace
  */
-function areMatchersEqual(typedMatcher: HookMatcher, untypedMatcher: any): boolean {
-  if (untypedMatcher == null || typeof untypedMatcher !== 'object') return false;
-  
-  // Check if matcher property matches
-  if (typedMatcher.matcher !== untypedMatcher.matcher) return false;
-  
-  // Check if hooks array exists and has same length
-  if (!Array.isArray(untypedMatcher.hooks)) return false;
-  if (typedMatcher.hooks.length !== untypedMatcher.hooks.length) return false;
-  
-  // Check each hook for equality
-  for (let i = 0; i < typedMatcher.hooks.length; i++) {
-    if (!areHooksEqual(typedMatcher.hooks[i], untypedMatcher.hooks[i])) {
-      return false;
+function commaAfter(content: string, offset: number): number {
+    const scanner = jsonc.createScanner(content, false);
+    scanner.setPosition(offset);
+    let token = scanner.scan();
+    while (token !== jsonc.SyntaxKind.CommaToken && token !== jsonc.SyntaxKind.EOF) {
+        token = scanner.scan();
     }
-  }
-  
-  return true;
+    return scanner.getTokenOffset();
+}
+
+/**
+ * Sort the removal paths that fall inside one event into whole matchers and
+ * entries within a matcher. Paths that point at nothing are dropped, and a
+ * matcher that would lose every entry is removed whole instead.
+ */
+function groupRemovalPaths(
+    removalPaths: jsonc.JSONPath[],
+    eventName: string,
+    matchers: any[]
+): { matcherIndices: Set<number>; entryIndices: Map<number, Set<number>> } {
+    const matcherIndices = new Set<number>();
+    const entryIndices = new Map<number, Set<number>>();
+
+    for (const [root, event, matcherIndex, field, entryIndex, ...rest] of removalPaths) {
+        if (root !== 'hooks' || event !== eventName || rest.length > 0) continue;
+        if (typeof matcherIndex !== 'number' || matcherIndex >= matchers.length) continue;
+
+        if (field === undefined) {
+            matcherIndices.add(matcherIndex);
+            continue;
+        }
+
+        const entries = matchers[matcherIndex]?.hooks;
+        if (field === 'hooks' && typeof entryIndex === 'number' && Array.isArray(entries) && entryIndex < entries.length) {
+            entryIndices.set(matcherIndex, (entryIndices.get(matcherIndex) ?? new Set<number>()).add(entryIndex));
+        }
+    }
+
+    for (const [matcherIndex, entries] of entryIndices) {
+        if (matcherIndices.has(matcherIndex) || entries.size === matchers[matcherIndex].hooks.length) {
+            matcherIndices.add(matcherIndex);
+            entryIndices.delete(matcherIndex);
+        }
+    }
+
+    return { matcherIndices, entryIndices };
 }
 
 /**
- * Visitor function that identifies which matchers should be removed from settings.
+ * Visitor function that identifies what should be removed from settings.
  * 
  * This implements a "subtract" operation: given a typed hook definition (what we
  * want to remove) and an array of raw unvalidated matchers from the settings file,
- * find the indices of matchers that exactly match our definition.
+ * find the matchers that match our definition. A matcher the user shares with
+ * their own commands keeps those: only our entries in it are picked.
  * 
  * @param definitionMatchers - Typed, validated HookMatcher objects we want to remove
  * @param settingsMatchers - Raw array from JSON file, structure not guaranteed
- * @returns Array of indices indicating which settingsMatchers should be removed
+ * @param mode - Which hook fields have to match
+ * @returns Paths within the array: [matcherIndex] for a whole matcher,
+ *   [matcherIndex, "hooks", entryIndex] for one entry
  */
 function findMatchersToRemove(
   definitionMatchers: HookMatcher[],
-  settingsMatchers: any[]
-): number[] {
-  const indicesToRemove: number[] = [];
+  settingsMatchers: any[],
+  mode: HookMatchMode
+): jsonc.JSONPath[] {
+  const paths: jsonc.JSONPath[] = [];
   
-  // For each matcher in settings, check if it matches any matcher in definition
   for (let settingsIndex = 0; settingsIndex < settingsMatchers.length; settingsIndex++) {
     const settingsMatcher = settingsMatchers[settingsIndex];
     
     // Check if this settings matcher exactly matches any definition matcher
     const hasExactMatch = definitionMatchers.some(definitionMatcher => 
-      areMatchersEqual(definitionMatcher, settingsMatcher)
+      areMatchersEqual(definitionMatcher, settingsMatcher, mode)
     );
     
     if (hasExactMatch) {
-      indicesToRemove.push(settingsIndex);
+      paths.push([settingsIndex]);
+      continue;
+    }
+    
+    const ours = new Set(definitionMatchers.flatMap(definitionMatcher =>
+      matchingEntryIndices(definitionMatcher, settingsMatcher, mode)));
+    
+    if (ours.size > 0 && ours.size === settingsMatcher.hooks.length) {
+      paths.push([settingsIndex]);
+    } else {
+      for (const entryIndex of [...ours].sort((a, b) => a - b)) {
+        paths.push([settingsIndex, 'hooks', entryIndex]);
+      }
     }
   }
   
-  return indicesToRemove;
+  return paths;
 }
 
 /**
@@ -196,218 +367,506 @@ function findMatchersToRemove(
  * 
  * @param settingsPath - Path to the settings.local.json file
  * @param hookDefinition - Typed Hooks object containing exactly what to remove
+ * @param mode - Which hook fields have to match (see areHooksEqual)
  * @returns New file content and count of removed hook matchers
  */
 export async function removeHooksWithDefinition(
     settingsPath: string,
-    hookDefinition: Hooks
-): Promise<{ newContent: string; removedCount: number; }> {
+    hookDefinition: Hooks,
+    mode: HookMatchMode = 'identity',
+    options: PlanOptions = {}
+): Promise<UninstallPlan> {
     const content = await fs.readFile(settingsPath, 'utf-8');
-    const errors: jsonc.ParseError[] = [];
-    const existingData = jsonc.parse(content, errors) as SettingsFile;
-    
-    if (!existingData.hooks) {
-        return { newContent: content, removedCount: 0 };
+    if (!options.force) {
+        assertParsableSettings(content, settingsPath);
     }
+    return planUninstall(content, hookDefinition, mode, options);
+}
 
-    let removedCount = 0;
-    let workingContent = content;
+/**
+ * The pure half of removeHooksWithDefinition: given the settings text,
+ * return the text without the definition's matchers, the edits that get
+ * there, and how many matchers went.
+ */
+export function planUninstall(
+    content: string,
+    hookDefinition: Hooks,
+    mode: HookMatchMode = 'identity',
+    options: PlanOptions = {}
+): UninstallPlan {
+    return planRemoval(content, options, findDefinitionMatches(content, hookDefinition, mode));
+}
 
-    // Track which event types to remove entirely
-    const eventTypesToRemove: string[] = [];
+/**
+ * Where the matchers that match a definition sit in the settings text,
+ * as paths like ["hooks", "PreToolUse", 2], or ["hooks", "PreToolUse", 2,
+ * "hooks", 1] for our entry in a matcher shared with the user's commands
+ */
+export function findDefinitionMatches(
+    content: string,
+    hookDefinition: Hooks,
+    mode: HookMatchMode = 'identity'
+): jsonc.JSONPath[] {
+    const existingData = jsonc.parse(content) as SettingsFile | undefined;
+    const paths: jsonc.JSONPath[] = [];
 
-    // Check each event type in the definition
     for (const [eventName, definitionMatchers] of Object.entries(hookDefinition)) {
-        const existingMatchers = existingData.hooks[eventName];
-        if (!existingMatchers || !Array.isArray(existingMatchers)) continue;
+        const existingMatchers = existingData?.hooks?.[eventName];
+        if (!Array.isArray(existingMatchers)) continue;
 
         // Use our visitor to find which matchers should be removed
-        const matcherIndicesToRemove = findMatchersToRemove(definitionMatchers, existingMatchers);
-        removedCount += matcherIndicesToRemove.length;
-
-        // If all matchers are being removed, mark the entire event for removal
-        if (matcherIndicesToRemove.length === existingMatchers.length) {
-            eventTypesToRemove.push(eventName);
-        } else if (matcherIndicesToRemove.length > 0) {
-            // Remove specific matchers (reverse order to maintain indices)
-            matcherIndicesToRemove.sort((a, b) => b - a);
-            for (const index of matcherIndicesToRemove) {
-                const edits = jsonc.modify(workingContent, ['hooks', eventName, index], undefined, {});
-                workingContent = jsonc.applyEdits(workingContent, edits);
-            }
+        for (const matcherPath of findMatchersToRemove(definitionMatchers, existingMatchers, mode)) {
+            paths.push(['hooks', eventName, ...matcherPath]);
         }
     }
 
-    // Remove entire event types that have no remaining hooks
-    for (const eventType of eventTypesToRemove) {
-        const edits = jsonc.modify(workingContent, ['hooks', eventType], undefined, {});
-        workingContent = jsonc.applyEdits(workingContent, edits);
-    }
+    return paths;
+}
 
-    // Check if hooks object is now empty and remove it if so
-    const updatedData = jsonc.parse(workingContent) as SettingsFile;
-    if (updatedData.hooks && Object.keys(updatedData.hooks).length === 0) {
-        const edits = jsonc.modify(workingContent, ['hooks'], undefined, {});
-        workingContent = jsonc.applyEdits(workingContent, edits);
-    }
+/**
+ * Plan removing the matchers (or hook entries) at these paths, whatever they
+ * contain. Used when we already know which matchers are ours (from the ledger).
+ */
+export function planRemoveMatchers(
+    content: string,
+    matcherPaths: jsonc.JSONPath[],
+    options: PlanOptions = {}
+): UninstallPlan {
+    return planRemoval(content, options, matcherPaths);
+}
+
+/**
+ * How the uninstall engine decides which matchers are ours
+ */
+export type UninstallStrategy =
+  /** The ledger's entries for the definition, plus matchers that match its hooks */
+  | { by: 'definition'; hooks: Hooks }
+  /** Every hook entry whose command runs the binary (its program name, exactly) */
+  | { by: 'binary'; binaryName: string }
+  /** Only what the ledger recorded for the definition */
+  | { by: 'ledger' };
 
-    return { newContent: workingContent, removedCount };
+/**
+ * Which matchers in one settings file belong to a definition
+ */
+export interface UninstallMatches {
+  /** The ledger entries for this file that may be removed, and where they are now */
+  located: LocatedEntry[];
+  /** Unmodified ledger entries and matchers that match the definition */
+  pathsToRemove: jsonc.JSONPath[];
+  /** Ledger entries the user has changed since, which need asking about */
+  modified: LocatedEntry[];
 }
 
 /**
- * Find diff tool to use
+ * Find what uninstalling a definition would take out of a settings file.
+ *
+ * The ledger knows which matchers we installed, even after the user edited
+ * them; entries of other definitions are located too, so they can't be
+ * mistaken for ours. Matchers that still match the definition count as well:
+ * installed before the ledger existed, or added by hand. Pure, no I/O.
  */
-function findDiffTool(): string {
-  try {
-    execSync('which difft', { stdio: 'ignore' });
-    return 'difft';
-  } catch {
-    return 'diff';
+export function findUninstallMatches(
+  content: string,
+  ledger: Ledger,
+  settingsFile: SettingsFileName,
+  hooks: Hooks,
+  definitionId: string,
+  mode?: HookMatchMode
+): UninstallMatches {
+  const located = locateEntries(content, ledger.entries.filter(entry => entry.settingsFile === settingsFile))
+    .filter(({ entry }) => entry.definition.id === definitionId);
+  
+  // A definition match may be one entry of a matcher; it still covers the matcher
+  const definitionPaths = findDefinitionMatches(content, hooks, mode);
+  const isDefinitionMatch = (matcherPath: jsonc.JSONPath) =>
+    definitionPaths.some(definitionPath => samePath(definitionPath.slice(0, 3), matcherPath));
+  
+  const pathsToRemove = [
+    ...located
+      .filter(({ status, path: matcherPath }) => status === 'unmodified' && !isDefinitionMatch(matcherPath!))
+      .map(({ path: matcherPath }) => matcherPath!),
+    ...definitionPaths
+  ];
+  
+  return {
+    located,
+    pathsToRemove,
+    modified: located.filter(({ status, path: matcherPath }) => status === 'modified' && !isDefinitionMatch(matcherPath!))
+  };
+}
+
+/**
+ * What a strategy takes out of a settings file. Removing by binary looks at
+ * commands only, but still finds every ledger entry so the ones it removes
+ * can be forgotten.
+ */
+export function findStrategyMatches(
+  content: string,
+  ledger: Ledger,
+  settingsFile: SettingsFileName,
+  strategy: UninstallStrategy,
+  options: Pick<UninstallOptions, 'definition' | 'match'> = {}
+): UninstallMatches {
+  if (strategy.by === 'binary') {
+    return {
+      located: locateEntries(content, ledger.entries.filter(entry => entry.settingsFile === settingsFile)),
+      pathsToRemove: findBinaryMatches(content, strategy.binaryName),
+      modified: []
+    };
+  }
+  
+  return findUninstallMatches(
+    content,
+    ledger,
+    settingsFile,
+    strategy.by === 'definition' ? strategy.hooks : {},
+    options.definition?.id ?? UNNAMED_DEFINITION_ID,
+    options.match
+  );
+}
+
+/**
+ * One settings file with something to uninstall in it
+ */
+export interface SettingsFileMatches {
+  location: SettingsFileLocation;
+  matches: Array<{
+    jsonPath: jsonc.JSONPath;
+    /** 1-based line the matcher starts on */
+    line: number;
+    /** A ledger entry the user changed since; uninstall asks before removing it */
+    modified: boolean;
+    /** The commands that would go */
+    commands: string[];
+  }>;
+}
+
+/**
+ * Look through settings files for the matchers a strategy would remove, so
+ * the user can see where they all are before choosing which files to clean.
+ * Files that don't exist or hold nothing of ours are left out.
+ */
+export async function scanSettingsFiles(
+  locations: SettingsFileLocation[],
+  strategy: UninstallStrategy,
+  options: Pick<UninstallOptions, 'definition' | 'match'> = {}
+): Promise<SettingsFileMatches[]> {
+  const found: SettingsFileMatches[] = [];
+  
+  for (const location of locations.filter(({ exists }) => exists)) {
+    const content = await fs.readFile(location.path, 'utf-8');
+    const ledger = await readLedger(path.dirname(location.path));
+    const { pathsToRemove, modified } = findStrategyMatches(
+      content,
+      ledger,
+      settingsFileForScope(location.scope),
+      strategy,
+      options
+    );
+    
+    const root = jsonc.parseTree(content);
+    const nodeAt = (jsonPath: jsonc.JSONPath) => root && jsonc.findNodeAtLocation(root, jsonPath);
+    const commandsAt = (jsonPath: jsonc.JSONPath): string[] => {
+      const node = nodeAt(jsonPath);
+      const value = node && jsonc.getNodeValue(node);
+      const hooks = jsonPath.length === 3 ? value?.hooks : [value];
+      return Array.isArray(hooks)
+        ? hooks.filter(hook => typeof hook?.command === 'string').map(hook => hook.command)
+        : [];
+    };
+    
+    const matches = [
+      ...pathsToRemove.map(jsonPath => ({ jsonPath, modified: false })),
+      ...modified.map(({ path: jsonPath }) => ({ jsonPath: jsonPath!, modified: true }))
+    ]
+      .map(match => ({
+        ...match,
+        line: positionAt(content, nodeAt(match.jsonPath)?.offset ?? 0).line,
+        commands: commandsAt(match.jsonPath)
+      }))
+      .sort((a, b) => a.line - b.line);
+    
+    if (matches.length > 0) {
+      found.push({ location, matches });
+    }
   }
+  
+  return found;
 }
 
 /**
  * Ask user for confirmation when uninstalling from parent directory
  */
-async function confirmParentUninstallation(directoryPath: string): Promise<boolean> {
-  console.log('\n' + chalk.yellow('⚠') + '  CONFIRMATION REQUIRED');
-  console.log(chalk.white('You are about to uninstall hooks from a parent directory.'));
-  console.log(chalk.gray(`This will affect the entire project at: ${directoryPath}`));
+async function confirmParentUninstallation(directoryPath: string, options: DecisionOptions): Promise<boolean> {
+  (options.reporter ?? defaultReporter).report({ type: 'parent-uninstall-warning', path: directoryPath });
   
-  const response = await prompts({
-    type: 'confirm',
-    name: 'confirmed',
-    message: 'Do you want to proceed?',
-    initial: false
-  });
-
-  return response.confirmed === true;
+  if (options.parent === false) {
+    return false;
+  }
+  
+  return await confirm('Do you want to proceed?', false, options, 'Pass --yes to proceed, or --no-parent to skip it.');
 }
 
 /**
- * Uninstall Phase: Automatically remove all happy-coder-hooks entries and show diff
+ * Ask whether to take our entries out of matchers the user has edited since.
+ * Whatever the user added to them stays either way.
+ */
+export async function confirmRemoveModified(count: number, options: UninstallOptions): Promise<boolean> {
+  // A dry run shows what --yes would do
+  return Boolean(options.dryRun) || await confirm(
+    `Remove the entries I added to ${count === 1 ? 'it' : 'them'} anyway? Anything you added stays.`,
+    false,
+    options,
+    'Pass --yes to remove them too.'
+  );
+}
+
+/**
+ * One settings file's uninstall, worked out and waiting to be written
+ */
+export interface PreparedUninstall {
+  settingsPath: string;
+  settingsFile: SettingsFileName;
+  currentContent: string;
+  plan: UninstallPlan;
+  /** Ledger entries to drop once the file is written */
+  forgotten: LedgerEntry[];
+  /** Our matchers the user has edited since */
+  modified: LocatedEntry[];
+  summary: DryRunSummary;
+  label: string;
+}
+
+/**
+ * The first half of the uninstall engine: read the settings file, find our
+ * matchers with the strategy, ask about ones the user has edited (unless
+ * options.removeModified already says), and plan the removal. Nothing is
+ * written.
+ */
+export async function prepareUninstallation(
+  targetDirectory: string,
+  strategy: UninstallStrategy,
+  options: UninstallOptions = {}
+): Promise<PreparedUninstall> {
+  const reporter = options.reporter ?? defaultReporter;
+  const settingsFile = settingsFileForScope(options.scope ?? 'local');
+  const settingsPath = path.join(targetDirectory, '.claude', settingsFile);
+  const label = options.binaryName || (strategy.by === 'binary' ? strategy.binaryName : 'hooks');
+  
+  // Read current settings
+  const currentContent = await fs.readFile(settingsPath, 'utf-8');
+  if (!options.force) {
+    assertParsableSettings(currentContent, settingsPath);
+  }
+  const ledger = await readLedger(path.dirname(settingsPath));
+  const { located, pathsToRemove, modified } = findStrategyMatches(currentContent, ledger, settingsFile, strategy, options);
+  
+  let removeModified = options.removeModified;
+  if (modified.length > 0 && removeModified === undefined) {
+    reporter.report({
+      type: 'modified-entries',
+      path: settingsPath,
+      entries: modified.map(({ path: matcherPath, current }) => ({ jsonPath: matcherPath!, current }))
+    });
+    removeModified = await confirmRemoveModified(modified.length, options);
+  }
+  if (modified.length > 0 && removeModified) {
+    // Only the entries we wrote: a matcher goes whole only when nothing of the user's is left in it
+    pathsToRemove.push(...modified.flatMap(ourEntryPaths));
+  }
+  
+  const plan = planRemoveMatchers(currentContent, pathsToRemove, { force: options.force });
+  reportWarnings(plan.warnings, reporter);
+  
+  // Forget entries that are gone already, and the ones being removed now
+  const forgotten = located
+    .filter(({ status, path: matcherPath }) =>
+      status === 'missing' || pathsToRemove.some(removedPath => samePath(removedPath.slice(0, 3), matcherPath!)))
+    .map(({ entry }) => entry);
+  
+  return {
+    settingsPath,
+    settingsFile,
+    currentContent,
+    plan,
+    forgotten,
+    modified,
+    label,
+    summary: {
+      operation: 'uninstall',
+      settingsPath,
+      changed: plan.removedCount > 0,
+      createsDirectory: false,
+      createsFile: false,
+      addedCount: 0,
+      skippedCount: 0,
+      removedCount: plan.removedCount,
+      replacedCount: 0,
+      edits: plan.edits
+    }
+  };
+}
+
+/**
+ * The second half of the uninstall engine: write the planned text and
+ * forget the removed entries in the ledger
+ */
+export async function writeUninstallation(prepared: PreparedUninstall, reporter: Reporter = defaultReporter): Promise<WriteResult> {
+  const { settingsPath, settingsFile, plan, forgotten, label } = prepared;
+  
+  const written = await writeSettingsFile(settingsPath, plan.newContent, { expected: prepared.currentContent });
+  reporter.report({ type: 'hooks-removed', path: settingsPath, removedCount: plan.removedCount, label });
+  if (written.backupPath) {
+    reporter.report({ type: 'backup-saved', path: settingsPath, backupPath: written.backupPath });
+  }
+  await updateLedger(path.dirname(settingsPath), reporter, ledger =>
+    recordUninstalled(ledger, settingsFile, forgotten, plan.newContent));
+  
+  return written;
+}
+
+/**
+ * Uninstall Phase: the one engine behind every uninstall. Find our matchers
+ * with the chosen strategy, ask about ones the user has edited, show the
+ * diff, and after confirmation write the file and update the ledger.
+ * A dry run stops after the diff.
  */
 export async function performUninstallation(
-  directoryPath: string,
-  requiresConfirmation: boolean = false
+  targetDirectory: string,
+  strategy: UninstallStrategy,
+  options: UninstallOptions = {}
 ): Promise<UninstallResult> {
+  const reporter = options.reporter ?? defaultReporter;
   try {
-    const settingsPath = path.join(directoryPath, '.claude', 'settings.local.json');
+    if (strategy.by === 'definition') {
+      assertValidHookDefinition(strategy.hooks);
+    }
+    
+    const settingsPath = path.join(targetDirectory, '.claude', settingsFileForScope(options.scope ?? 'local'));
     
     // Check if settings file exists
     try {
       await fs.stat(settingsPath);
     } catch {
-      console.log('No settings.local.json file found.');
+      reporter.report({ type: 'nothing-to-uninstall', reason: 'no-settings-file', path: settingsPath });
       return {
         success: true,
         settingsPath,
         removedCount: 0
       };
     }
-
-    // Step 1: Confirm if uninstalling from parent directory
-    if (requiresConfirmation) {
-      const confirmed = await confirmParentUninstallation(directoryPath);
+    
+    if (options.inParentDirectory) {
+      const confirmed = await confirmParentUninstallation(targetDirectory, options);
       if (!confirmed) {
+        reporter.report({ type: 'cancelled', operation: 'uninstall', stage: 'decision' });
         return {
           success: false,
-          error: 'Uninstallation cancelled by user'
+          cancelled: true,
+          error: 'Uninstall cancelled by user'
         };
       }
     }
     
-    console.log('Uninstalling happy-coder-hooks...');
-    
-    // Read current settings
-    const currentContent = await fs.readFile(settingsPath, 'utf-8');
+    const label = options.binaryName || (strategy.by === 'binary' ? strategy.binaryName : 'hooks');
+    reporter.report({ type: 'uninstall-started', path: settingsPath, label });
     
-    // Remove hooks and get the result
-    const result = await removeHooksWithBinary(settingsPath, 'happy-coder-hooks');
+    // Hold the lock from reading to writing; a dry run writes nothing and doesn't need it
+    const run = () => planAndRemove(targetDirectory, strategy, options);
+    return options.dryRun ? await run() : await withSettingsLock(settingsPath, run);
+  } catch (error) {
+    if (error instanceof DecisionRequiredError || error instanceof SettingsParseError) {
+      throw error;
+    }
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
+
+/**
+ * Plan, show and confirm the removal, then write it. If the file changed
+ * while the user was deciding, the plan is worked out again against what is
+ * there now and shown again, instead of overwriting the change.
+ */
+async function planAndRemove(
+  targetDirectory: string,
+  strategy: UninstallStrategy,
+  options: UninstallOptions
+): Promise<UninstallResult> {
+  const reporter = options.reporter ?? defaultReporter;
+  
+  for (let attempt = 1; ; attempt++) {
+    const prepared = await prepareUninstallation(targetDirectory, strategy, options);
+    const { settingsPath, currentContent, plan, summary, forgotten, settingsFile, label } = prepared;
     
-    if (result.removedCount === 0) {
-      console.log('No happy-coder-hooks found to uninstall.');
+    if (plan.removedCount === 0) {
+      reporter.report({ type: 'nothing-to-uninstall', reason: 'no-matches', path: settingsPath, label });
+      if (options.dryRun) {
+        reporter.report({ type: 'dry-run-finished', summary });
+      } else if (forgotten.length > 0) {
+        await updateLedger(path.dirname(settingsPath), reporter, ledger =>
+          recordUninstalled(ledger, settingsFile, forgotten, currentContent));
+      }
       return {
         success: true,
         settingsPath,
-        removedCount: 0
+        removedCount: 0,
+        ...(options.dryRun && { dryRun: summary })
       };
     }
     
-    // Create temp directory and write new settings
-    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'happy-coder-hooks-'));
-    const tempSettingsPath = path.join(tempDir, 'settings.local.json');
-    await fs.writeFile(tempSettingsPath, result.newContent);
-    
-    // Show diff
-    const diffTool = findDiffTool();
-    console.log(`\nShowing diff (${diffTool}):\n`);
+    reporter.report({
+      type: 'diff',
+      path: settingsPath,
+      before: currentContent,
+      after: plan.newContent,
+      diffTool: options.diffTool ?? (options.dryRun ? BUILTIN_DIFF_TOOL : undefined)
+    });
     
-    try {
-      if (diffTool === 'difft') {
-        spawnSync(diffTool, [settingsPath, tempSettingsPath], { stdio: 'inherit' });
-      } else {
-        spawnSync(diffTool, ['-u', settingsPath, tempSettingsPath], { stdio: 'inherit' });
-      }
-    } catch (error) {
-      console.error(chalk.red(`Error running diff tool: ${error}`));
-      console.log(chalk.gray('\nCurrent settings:'));
-      console.log(currentContent);
-      console.log(chalk.gray('\nNew settings:'));
-      console.log(result.newContent);
+    if (options.dryRun) {
+      reporter.report({ type: 'dry-run-finished', summary });
+      return {
+        success: true,
+        settingsPath,
+        dryRun: summary
+      };
     }
     
-    // Ask for confirmation using prompts
-    const response = await prompts({
-      type: 'confirm',
-      name: 'confirmed',
-      message: `Remove ${result.removedCount} happy-coder-hooks entries?`,
-      initial: true
-    });
+    // Ask for confirmation
+    const confirmed = await confirm(`Remove ${plan.removedCount} ${label} entries?`, true, options);
     
-    if (response.confirmed) {
-      await fs.writeFile(settingsPath, result.newContent);
-      console.log(`\n` + chalk.green('✓') + ` Uninstalled ${result.removedCount} happy-coder-hooks entries.`);
-    } else {
-      console.log('\nUninstall cancelled.');
-      await fs.rm(tempDir, { recursive: true });
+    if (!confirmed) {
+      reporter.report({ type: 'cancelled', operation: 'uninstall', stage: 'confirmation' });
       return {
         success: false,
+        cancelled: true,
         error: 'Uninstall cancelled by user'
       };
     }
     
-    // Clean up temp directory
-    await fs.rm(tempDir, { recursive: true });
-    
-    return {
-      success: true,
-      settingsPath,
-      removedCount: result.removedCount
-    };
-  } catch (error) {
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : String(error)
-    };
+    try {
+      const written = await writeUninstallation(prepared, reporter);
+      return {
+        success: true,
+        settingsPath,
+        backupPath: written.backupPath,
+        removedCount: plan.removedCount
+      };
+    } catch (error) {
+      if (!(error instanceof SettingsChangedError) || attempt === MAX_REPLANS) {
+        throw error;
+      }
+      reporter.report({ type: 'settings-changed', path: settingsPath });
+    }
   }
 }
 
 /**
  * Report the results of the uninstallation
  */
-export function reportUninstallResults(result: UninstallResult): void {
-  if (!result.success) {
-    console.log(chalk.red('\n✗') +' Uninstallation failed');
-    console.log(chalk.red(`  ${result.error}`));
-    return;
-  }
-
-  if (!result.removedCount || result.removedCount === 0) {
-    // This was already logged in performUninstallation
-    return;
-  }
-
-  // Success was already logged in performUninstallation
-  console.log(chalk.gray(`Location: ${result.settingsPath}`));
+export function reportUninstallResults(result: UninstallResult, reporter: Reporter = defaultReporter): void {
+  reporter.report({ type: 'uninstall-result', result });
 }
@@ -0,0 +1,519 @@
+/*
+ * CLI tool for managing Claude Code hooks
+ * Copyright (C) 2025  Peoples Grocers LLC
+ *
+ * This library is free software; you can redistribute it and/or
+ * modify it under the terms of the GNU Lesser General Public
+ * License as published by the Free Software Foundation; either
+ * version 2.1 of the License, or (at your option) any later version.
+ *
+ * This library is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the GNU
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public
+ * License along with this library; if not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+import * as jsonc from 'jsonc-parser';
+
+import { findDefinitionMatches, planRemoveMatchers, UninstallOptions } from 'src/uninstall-phase';
+import { DefinitionVersion, HookMatcher, HookMatchMode, Hooks, SettingsFile } from 'src/types';
+import { settingsFileForScope } from 'src/scopes';
+import { confirm, DecisionRequiredError } from 'src/decision-phase';
+import { MAX_REPLANS, SettingsChangedError, withSettingsLock, writeSettingsFile, WriteResult } from 'src/atomic-write';
+import { BUILTIN_DIFF_TOOL } from 'src/diff-tools';
+import { editsBetween, PlanOptions, SettingsPlan } from 'src/text-diff';
+import { detectFormatting, keepFinalNewline } from 'src/formatting';
+import { assertParsableSettings, checkSettingsText, SettingsParseError } from 'src/settings-parse';
+import { assertValidHookDefinition } from 'src/validate';
+import { areMatchersEqual, isSameJsonValue, matcherPatternsMatch } from 'src/hook-entry';
+import {
+  DryRunSummary,
+  InstallResult,
+  planInstall,
+  reportWarnings,
+  samePath,
+  updateLedger
+} from 'src/install-phase';
+import {
+  AddedMatcher,
+  locateEntries,
+  readLedger,
+  recordInstalled,
+  recordUninstalled,
+  UNNAMED_DEFINITION_ID
+} from 'src/ledger';
+import { defaultReporter } from 'src/reporter';
+
+/**
+ * What moving a settings file from one version of a definition to the next
+ * would do
+ */
+export interface UpgradePlan extends SettingsPlan {
+  /** Old matchers changed in place into their new version */
+  replacedCount: number;
+  /** Old matchers the new version doesn't have any more */
+  removedCount: number;
+  /** Matchers that are new in this version */
+  addedCount: number;
+  /** New matchers that were already there */
+  skippedCount: number;
+  /** Where the old matchers we touched or kept were, in the text before the upgrade */
+  upgradedPaths: jsonc.JSONPath[];
+  /** Every matcher of the new version we're responsible for, as it ends up in the file */
+  installed: AddedMatcher[];
+}
+
+/**
+ * Same answers as uninstall: the definition identity is the new version's
+ */
+export type UpgradeOptions = UninstallOptions;
+
+/**
+ * Work out an upgrade from one version of a definition to the next as a
+ * single change to the settings text.
+ *
+ * Matchers are paired by event: first by the same `matcher` string, then in
+ * order. Each installed old matcher is turned into its new version in place,
+ * one field at a time, so it keeps its position and the comments around it.
+ * A field the user changed by hand is left as they set it. Old matchers with
+ * no new version are removed, and new ones with no old version are added the
+ * way install adds them.
+ *
+ * When none of the old matchers are in the file, nothing changes: upgrading
+ * something that isn't installed doesn't install it.
+ *
+ * Pure: no files, no prompts, no output. Text that doesn't parse stops the
+ * plan with a SettingsParseError, unless forced.
+ */
+export function planUpgrade(
+  content: string,
+  from: Hooks,
+  to: Hooks,
+  mode: HookMatchMode = 'identity',
+  options: PlanOptions = {}
+): UpgradePlan {
+  const formattingOptions = detectFormatting(content);
+  const warnings = checkSettingsText(content, options.force);
+  const settings = (jsonc.parse(content) ?? {}) as SettingsFile;
+  
+  let workingContent = content;
+  let replacedCount = 0;
+  const kept: jsonc.JSONPath[] = [];
+  const removed: jsonc.JSONPath[] = [];
+  const toAdd: Hooks = {};
+  
+  for (const eventName of new Set([...Object.keys(from), ...Object.keys(to)])) {
+    const existing = settings.hooks?.[eventName];
+    const existingMatchers: unknown[] = Array.isArray(existing) ? existing : [];
+    const claimed = new Set<number>();
+    const pairs = pairMatchers(from[eventName] ?? [], to[eventName] ?? []);
+    
+    for (const [oldMatcher, newMatcher] of pairs) {
+      if (!oldMatcher) {
+        (toAdd[eventName] ??= []).push(newMatcher!);
+        continue;
+      }
+      
+      const indices = [...existingMatchers.keys()].filter(index =>
+        !claimed.has(index) && areMatchersEqual(oldMatcher, existingMatchers[index], mode));
+      indices.forEach(index => claimed.add(index));
+      
+      // If the new version is already there as well, the old one just goes
+      const alreadyThere = newMatcher !== undefined && existingMatchers.some((matcher, index) =>
+        !indices.includes(index) && areMatchersEqual(newMatcher, matcher, mode));
+      
+      indices.forEach((index, n) => {
+        const matcherPath: jsonc.JSONPath = ['hooks', eventName, index];
+        if (!newMatcher || alreadyThere || n > 0) {
+          removed.push(matcherPath);
+          return;
+        }
+        
+        const updated = updateMatcherFields(
+          workingContent, matcherPath, oldMatcher, newMatcher, existingMatchers[index], formattingOptions);
+        if (updated !== workingContent) {
+          replacedCount++;
+          workingContent = updated;
+        }
+        kept.push(matcherPath);
+      });
+    }
+  }
+  
+  if (kept.length === 0 && removed.length === 0) {
+    // None of the old version is installed here
+    return {
+      newContent: content,
+      edits: [],
+      replacedCount: 0,
+      removedCount: 0,
+      addedCount: 0,
+      skippedCount: 0,
+      upgradedPaths: [],
+      installed: [],
+      warnings
+    };
+  }
+  
+  const removal = planRemoveMatchers(workingContent, removed, options);
+  workingContent = removal.newContent;
+  warnings.push(...removal.warnings);
+  
+  // Removing matchers shifts the ones after them in the same event
+  const keptAfterRemoval = kept.map(([, eventName, index]) => {
+    const shift = removed.filter(removedPath => removedPath[1] === eventName && removedPath[2] < index).length;
+    return ['hooks', eventName, (index as number) - shift] as jsonc.JSONPath;
+  });
+  
+  let added: AddedMatcher[] = [];
+  let skippedCount = 0;
+  if (Object.keys(toAdd).length > 0) {
+    const installation = planInstall(workingContent, toAdd, options);
+    workingContent = installation.newContent;
+    warnings.push(...installation.warnings);
+    added = installation.added;
+    skippedCount = installation.skippedCount;
+  }
+  
+  workingContent = keepFinalNewline(workingContent, formattingOptions);
+  
+  // What the ledger should remember is what's in the file, user tweaks included
+  const finalSettings = jsonc.parse(workingContent) as SettingsFile;
+  const installed = [...keptAfterRemoval, ...added.map(({ path: addedPath }) => addedPath)]
+    .map(matcherPath => ({
+      path: matcherPath,
+      matcher: finalSettings.hooks![matcherPath[1]][matcherPath[2] as number] as HookMatcher
+    }));
+  
+  return {
+    newContent: workingContent,
+    edits: editsBetween(content, workingContent),
+    replacedCount,
+    removedCount: removal.removedCount,
+    addedCount: added.length,
+    skippedCount,
+    upgradedPaths: [...kept, ...removed],
+    installed,
+    // A forced edit hears about the same parse problems from each step
+    warnings: [...new Set(warnings)]
+  };
+}
+
+/**
+ * Pair up the old and new matchers of one event: same `matcher` string
+ * first, then whatever is left in order. Either side may be missing.
+ */
+function pairMatchers(
+  oldMatchers: HookMatcher[],
+  newMatchers: HookMatcher[]
+): Array<[HookMatcher | undefined, HookMatcher | undefined]> {
+  const unpairedNew = [...newMatchers];
+  const pairs: Array<[HookMatcher | undefined, HookMatcher | undefined]> = [];
+  const unpairedOld: HookMatcher[] = [];
+  
+  for (const oldMatcher of oldMatchers) {
+    const index = unpairedNew.findIndex(newMatcher => matcherPatternsMatch(newMatcher.matcher, oldMatcher.matcher));
+    if (index === -1) {
+      unpairedOld.push(oldMatcher);
+    } else {
+      pairs.push([oldMatcher, unpairedNew.splice(index, 1)[0]]);
+    }
+  }
+  
+  for (const oldMatcher of unpairedOld) {
+    pairs.push([oldMatcher, unpairedNew.shift()]);
+  }
+  for (const newMatcher of unpairedNew) {
+    pairs.push([undefined, newMatcher]);
+  }
+  
+  return pairs;
+}
+
+/**
+ * Edit the matcher at matcherPath from its old version into its new one,
+ * touching only the fields that differ between the two versions. When the
+ * number of hooks changed there's nothing to line up, so the hooks array is
+ * replaced as a whole.
+ */
+function updateMatcherFields(
+  content: string,
+  matcherPath: jsonc.JSONPath,
+  oldMatcher: HookMatcher,
+  newMatcher: HookMatcher,
+  current: any,
+  formattingOptions: jsonc.FormattingOptions
+): string {
+  let workingContent = content;
+  const set = (fieldPath: jsonc.JSONPath, value: unknown) => {
+    const edits = jsonc.modify(workingContent, [...matcherPath, ...fieldPath], value, { formattingOptions });
+    workingContent = jsonc.applyEdits(workingContent, edits);
+  };
+  
+  if (!matcherPatternsMatch(oldMatcher.matcher, newMatcher.matcher)) {
+    set(['matcher'], newMatcher.matcher);
+  }
+  
+  if (oldMatcher.hooks.length !== newMatcher.hooks.length) {
+    set(['hooks'], newMatcher.hooks);
+    return workingContent;
+  }
+  
+  newMatcher.hooks.forEach((newHook, index) => {
+    const oldHook = oldMatcher.hooks[index];
+    const currentHook = current.hooks[index];
+    
+    for (const field of new Set([...Object.keys(oldHook), ...Object.keys(newHook)])) {
+      if (isSameJsonValue(oldHook[field], newHook[field])) continue;
+      // Changed by hand since it was installed: the user's value wins
+      if (!isSameJsonValue(oldHook[field], currentHook[field])) continue;
+      set(['hooks', index, field], newHook[field]);
+    }
+  });
+  
+  return workingContent;
+}
+
+/**
+ * Upgrade Phase: move the settings file from an earlier version of a
+ * definition to this one, with one diff and one confirmation.
+ *
+ * `candidates` are the earlier versions it might be coming from. The one the
+ * ledger says was installed wins; otherwise the first one found in the file.
+ */
+export async function performUpgrade(
+  targetDirectory: string,
+  candidates: DefinitionVersion[],
+  hooksToInstall: Hooks,
+  options: UpgradeOptions = {}
+): Promise<InstallResult> {
+  const reporter = options.reporter ?? defaultReporter;
+  try {
+    assertValidHookDefinition(hooksToInstall);
+    for (const candidate of candidates) {
+      assertValidHookDefinition(candidate.hooks);
+    }
+    
+    const settingsPath = path.join(targetDirectory, '.claude', settingsFileForScope(options.scope ?? 'local'));
+    try {
+      await fs.stat(settingsPath);
+    } catch {
+      reporter.report({ type: 'nothing-to-upgrade', reason: 'no-settings-file', path: settingsPath });
+      return { success: true, settingsPath };
+    }
+    
+    if (options.inParentDirectory) {
+      const confirmed = await confirmParentUpgrade(targetDirectory, options);
+      if (!confirmed) {
+        reporter.report({ type: 'cancelled', operation: 'upgrade', stage: 'decision' });
+        return {
+          success: false,
+          cancelled: true,
+          error: 'Upgrade cancelled by user'
+        };
+      }
+    }
+    
+    // Hold the lock from reading to writing; a dry run writes nothing and doesn't need it
+    const run = () => planAndUpgrade(targetDirectory, candidates, hooksToInstall, options);
+    return options.dryRun ? await run() : await withSettingsLock(settingsPath, run);
+  } catch (error) {
+    if (error instanceof DecisionRequiredError || error instanceof SettingsParseError) {
+      throw error;
+    }
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
+
+/**
+ * Ask before upgrading a .claude directory found in a parent folder
+ */
+async function confirmParentUpgrade(directoryPath: string, options: UpgradeOptions): Promise<boolean> {
+  (options.reporter ?? defaultReporter).report({ type: 'parent-upgrade-warning', path: directoryPath });
+  
+  if (options.parent === false) {
+    return false;
+  }
+  
+  return await confirm('Do you want to proceed?', false, options, 'Pass --yes to proceed, or --no-parent to skip it.');
+}
+
+/**
+ * Plan, show and confirm the upgrade, then write it and move the ledger on.
+ * If the file changed while the user was deciding, the plan is worked out
+ * again against what is there now and shown again.
+ */
+async function planAndUpgrade(
+  targetDirectory: string,
+  candidates: DefinitionVersion[],
+  hooksToInstall: Hooks,
+  options: UpgradeOptions
+): Promise<InstallResult> {
+  const reporter = options.reporter ?? defaultReporter;
+  const settingsFile = settingsFileForScope(options.scope ?? 'local');
+  const settingsPath = path.join(targetDirectory, '.claude', settingsFile);
+  const claudeDir = path.dirname(settingsPath);
+  const definition = options.definition ?? { id: UNNAMED_DEFINITION_ID };
+  const label = options.binaryName || definition.id;
+  
+  for (let attempt = 1; ; attempt++) {
+    let currentContent: string;
+    try {
+      currentContent = await fs.readFile(settingsPath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+      // Deleted while the user was deciding
+      reporter.report({ type: 'nothing-to-upgrade', reason: 'no-settings-file', path: settingsPath });
+      return { success: true, settingsPath };
+    }
+    
+    if (!options.force) {
+      assertParsableSettings(currentContent, settingsPath);
+    }
+    
+    const ledger = await readLedger(claudeDir);
+    const located = locateEntries(currentContent, ledger.entries.filter(entry => entry.settingsFile === settingsFile))
+      .filter(({ entry }) => entry.definition.id === definition.id);
+    
+    // Prefer the version the ledger says we installed, then the first that's in the file
+    const recordedVersions = new Set(located.map(({ entry }) => entry.definition.version));
+    const ordered = [
+      ...candidates.filter(candidate => candidate.version !== undefined && recordedVersions.has(candidate.version)),
+      ...candidates
+    ];
+    const plans = ordered.map(candidate => ({ candidate, plan: planUpgrade(currentContent, candidate.hooks, hooksToInstall, options.match, { force: options.force }) }));
+    const chosen = plans.find(({ plan }) => plan.upgradedPaths.length > 0);
+    
+    reporter.report({
+      type: 'upgrade-started',
+      path: settingsPath,
+      label,
+      fromVersion: chosen?.candidate.version,
+      toVersion: definition.version
+    });
+    
+    if (!chosen || chosen.plan.newContent === currentContent) {
+      const upToDate = findDefinitionMatches(currentContent, hooksToInstall, options.match).length > 0;
+      reporter.report({ type: 'nothing-to-upgrade', reason: upToDate ? 'up-to-date' : 'not-installed', path: settingsPath, label });
+      
+      const summary = upgradeSummary(settingsPath, false, chosen?.plan);
+      if (options.dryRun) {
+        reporter.report({ type: 'dry-run-finished', summary });
+      } else if (chosen && !located.every(({ entry }) => entry.definition.version === definition.version)) {
+        // Same hooks in both versions: only the ledger moves on
+        await updateLedger(claudeDir, reporter, ledger => recordInstalled(
+          recordUninstalled(ledger, settingsFile, located.map(({ entry }) => entry), currentContent),
+          definition,
+          settingsFile,
+          chosen.plan.installed
+        ));
+      }
+      return {
+        success: true,
+        settingsPath,
+        alreadyInstalled: upToDate,
+        ...(options.dryRun && { dryRun: summary })
+      };
+    }
+    
+    const { plan } = chosen;
+    reportWarnings(plan.warnings, reporter);
+    
+    reporter.report({
+      type: 'diff',
+      path: settingsPath,
+      before: currentContent,
+      after: plan.newContent,
+      diffTool: options.diffTool ?? (options.dryRun ? BUILTIN_DIFF_TOOL : undefined)
+    });
+    
+    const summary = upgradeSummary(settingsPath, true, plan);
+    if (options.dryRun) {
+      reporter.report({ type: 'dry-run-finished', summary });
+      return {
+        success: true,
+        settingsPath,
+        dryRun: summary
+      };
+    }
+    
+    const confirmed = await confirm(`Upgrade ${label} in ${settingsFile}?`, true, options);
+    if (!confirmed) {
+      reporter.report({ type: 'cancelled', operation: 'upgrade', stage: 'confirmation' });
+      return {
+        success: false,
+        cancelled: true,
+        error: 'Upgrade cancelled by user'
+      };
+    }
+    
+    let written: WriteResult;
+    try {
+      written = await writeSettingsFile(settingsPath, plan.newContent, { expected: currentContent });
+    } catch (error) {
+      if (!(error instanceof SettingsChangedError) || attempt === MAX_REPLANS) {
+        throw error;
+      }
+      reporter.report({ type: 'settings-changed', path: settingsPath });
+      continue;
+    }
+    reporter.report({
+      type: 'hooks-upgraded',
+      path: settingsPath,
+      replacedCount: plan.replacedCount,
+      removedCount: plan.removedCount,
+      addedCount: plan.addedCount,
+      label
+    });
+    if (written.backupPath) {
+      reporter.report({ type: 'backup-saved', path: settingsPath, backupPath: written.backupPath });
+    }
+    
+    // The old version's entries make way for the new version's
+    const forgotten = located
+      .filter(({ status, path: matcherPath }) =>
+        status === 'missing' || plan.upgradedPaths.some(upgradedPath => samePath(upgradedPath, matcherPath!)))
+      .map(({ entry }) => entry);
+    await updateLedger(claudeDir, reporter, ledger => recordInstalled(
+      recordUninstalled(ledger, settingsFile, forgotten, plan.newContent),
+      definition,
+      settingsFile,
+      plan.installed
+    ));
+    
+    return {
+      success: true,
+      settingsPath,
+      backupPath: written.backupPath
+    };
+  }
+}
+
+/**
+ * The dry run summary of an upgrade plan
+ */
+function upgradeSummary(settingsPath: string, changed: boolean, plan?: UpgradePlan): DryRunSummary {
+  return {
+    operation: 'upgrade',
+    settingsPath,
+    changed,
+    createsDirectory: false,
+    createsFile: false,
+    addedCount: changed ? plan!.addedCount : 0,
+    skippedCount: changed ? plan!.skippedCount : 0,
+    removedCount: changed ? plan!.removedCount : 0,
+    replacedCount: changed ? plan!.replacedCount : 0,
+    edits: changed ? plan!.edits : []
+  };
+}
@@ -0,0 +1,154 @@
+/*
+ * CLI tool for managing Claude Code hooks
+ * Copyright (C) 2025  Peoples Grocers LLC
+ *
+ * This library is free software; you can redistribute it and/or
+ * modify it under the terms of the GNU Lesser General Public
+ * License as published by the Free Software Foundation; either
+ * version 2.1 of the License, or (at your option) any later version.
+ *
+ * This library is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the GNU
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public
+ * License along with this library; if not, see <https://www.gnu.org/licenses/>.
+ */
+import { checkMatcher, eventTakesMatcher, isClaudeCodeEvent, suggestEventName } from './events';
+import { isJsonObject } from './hook-entry';
+import { Hooks } from './types';
+
+/**
+ * One thing wrong with a hook definition, and where: a path like
+ * `PostToolUse[0].hooks[1].command`
+ */
+export interface DefinitionProblem {
+  path: string;
+  message: string;
+}
+
+/**
+ * Thrown before install or uninstall when the hook definition is invalid,
+ * so nothing malformed ever reaches someone's settings file
+ */
+export class HookDefinitionError extends Error {
+  constructor(public readonly problems: DefinitionProblem[], source?: string) {
+    super(
+      `The hook definition${source ? ` from ${source}` : ''} doesn't look right:\n` +
+      problems.map(problem => `  ${problem.path}: ${problem.message}`).join('\n')
+    );
+    this.name = 'HookDefinitionError';
+  }
+}
+
+/**
+ * Check a hook definition against what Claude Code actually understands:
+ * the real event names, matchers only on the events that filter by them,
+ * and complete command or prompt hooks. Fields we don't know about are
+ * allowed, since Claude keeps adding them. Returns every problem found, empty when valid.
+ *
+ * The value is usually raw parsed JSON, so nothing about its shape is assumed.
+ */
+export function validateHookDefinition(value: unknown): DefinitionProblem[] {
+  const problems: DefinitionProblem[] = [];
+  const problem = (path: string, message: string) => problems.push({ path, message });
+  const checkText = (hook: Record<string, unknown>, field: 'command' | 'prompt', hookPath: string) => {
+    const text = hook[field];
+    if (text === undefined) {
+      problem(`${hookPath}.${field}`, 'required');
+    } else if (typeof text !== 'string') {
+      problem(`${hookPath}.${field}`, 'expected a string');
+    } else if (text.trim() === '') {
+      problem(`${hookPath}.${field}`, 'must not be empty');
+    }
+  };
+  
+  if (!isJsonObject(value)) {
+    problem('(definition)', 'expected an object mapping event names to matcher arrays');
+    return problems;
+  }
+  
+  for (const [eventName, matchers] of Object.entries(value)) {
+    if (!isClaudeCodeEvent(eventName)) {
+      const suggestion = suggestEventName(eventName);
+      problem(eventName, suggestion ? `unknown event (did you mean "${suggestion}"?)` : 'unknown event');
+    }
+    
+    if (!Array.isArray(matchers)) {
+      problem(eventName, 'expected an array of matchers');
+      continue;
+    }
+    
+    matchers.forEach((matcher: unknown, i: number) => {
+      const matcherPath = `${eventName}[${i}]`;
+      
+      if (!isJsonObject(matcher)) {
+        problem(matcherPath, 'expected an object');
+        return;
+      }
+      
+      // Without a matcher Claude runs the hooks for everything, like ""
+      if (matcher.matcher !== undefined) {
+        if (typeof matcher.matcher !== 'string') {
+          problem(`${matcherPath}.matcher`, 'expected a string');
+        } else if (isClaudeCodeEvent(eventName) && !eventTakesMatcher(eventName) && matcher.matcher !== '') {
+          problem(`${matcherPath}.matcher`, `${eventName} doesn't use matchers, leave it out`);
+        } else {
+          const matcherProblem = checkMatcher(matcher.matcher);
+          if (matcherProblem) {
+            problem(`${matcherPath}.matcher`, `not a valid regular expression (${matcherProblem})`);
+          }
+        }
+      }
+      
+      if (matcher.hooks === undefined) {
+        problem(`${matcherPath}.hooks`, 'required');
+        return;
+      }
+      if (!Array.isArray(matcher.hooks)) {
+        problem(`${matcherPath}.hooks`, 'expected an array');
+        return;
+      }
+      if (matcher.hooks.length === 0) {
+        problem(`${matcherPath}.hooks`, 'expected at least one hook');
+      }
+      
+      matcher.hooks.forEach((hook: unknown, j: number) => {
+        const hookPath = `${matcherPath}.hooks[${j}]`;
+        
+        if (!isJsonObject(hook)) {
+          problem(hookPath, 'expected an object');
+          return;
+        }
+        
+        if (hook.type === undefined) {
+          problem(`${hookPath}.type`, 'required');
+        } else if (hook.type === 'command') {
+          checkText(hook, 'command', hookPath);
+        } else if (hook.type === 'prompt') {
+          checkText(hook, 'prompt', hookPath);
+        } else {
+          problem(`${hookPath}.type`, 'expected "command" or "prompt"');
+        }
+        
+        if (hook.timeout !== undefined && !(typeof hook.timeout === 'number' && hook.timeout > 0)) {
+          problem(`${hookPath}.timeout`, 'expected a positive number of seconds');
+        }
+      });
+    });
+  }
+  
+  return problems;
+}
+
+/**
+ * Throw a HookDefinitionError listing every problem, or narrow the value to
+ * Hooks when there are none
+ */
+export function assertValidHookDefinition(value: unknown, source?: string): asserts value is Hooks {
+  const problems = validateHookDefinition(value);
+  if (problems.length > 0) {
+    throw new HookDefinitionError(problems, source);
+  }
+}